@@ -0,0 +1,14 @@
+import { generateOpenApiDocument } from "@/utils/create-server-fn";
+import { getPosts } from "@/examples/05-real-world-example";
+
+// GET /api/openapi - the contract of the functions exposed under /api
+export function GET() {
+  return Response.json(
+    generateOpenApiDocument({
+      info: { title: "Server Function Examples", version: "0.1.0" },
+      paths: {
+        "/api/posts": { GET: getPosts },
+      },
+    })
+  );
+}
@@ -0,0 +1,6 @@
+import { toRouteHandler } from "@/utils/create-server-fn";
+import { getPosts } from "@/examples/05-real-world-example";
+
+// GET /api/posts?published=true&limit=5
+// The same server function the app calls as a server action, for clients that can't
+export const { GET } = toRouteHandler(getPosts);
@@ -0,0 +1,4 @@
+import { router } from "../router";
+
+// POST /api/rpc/posts/create, /api/rpc/posts/list, /api/rpc/posts/publish
+export const { POST } = router;
@@ -0,0 +1,14 @@
+import { createRouter } from "@/utils/create-server-fn";
+import {
+  createPost,
+  getPosts,
+  publishPost,
+} from "@/examples/05-real-world-example";
+import { summarizeArticle } from "@/examples/06-streaming";
+
+// Typed contract for other apps: createClient<typeof router>(".../api/rpc")
+export const router = createRouter({
+  posts: { create: createPost, list: getPosts, publish: publishPost },
+  // Streams newline-delimited JSON; createClient() reads it back into { stream, result }
+  articles: { summarize: summarizeArticle },
+});
@@ -1,42 +1,30 @@
 "use client";
 
-import { useState } from "react";
-import { createUser, processForm } from "@/examples/03-validation-examples";
+import { useActionState } from "react";
+import {
+  createUser,
+  processForm,
+  subscribeAction,
+} from "@/examples/03-validation-examples";
+import { useServerFn } from "@/utils/use-server-fn";
 
 function UserCreationExample() {
-  const [state, setState] = useState<{ result: string; loading: boolean }>({
-    result: "",
-    loading: false,
-  });
+  const { execute, status, isPending, data, errors } = useServerFn(createUser);
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    setState({ result: "", loading: true });
 
-    const formData = new FormData(e.currentTarget);
-
-    const response = await createUser({
-      input: {
-        name: formData.get("name") as string,
-        email: formData.get("email") as string,
-        age: parseInt(formData.get("age") as string),
-      },
-    });
-
-    if (response.ok) {
-      setState({
-        result: `✅ User created: ${response.data.user.name} (ID: ${response.data.id})`,
-        loading: false,
-      });
-      return;
-    }
-
-    setState({
-      result: `❌ Error: ${response.errors.join(", ")}`,
-      loading: false,
-    });
+    // The schema accepts FormData and coerces "age" to a number
+    await execute({ input: new FormData(e.currentTarget) });
   };
 
+  const result =
+    status === "success" && data
+      ? `✅ User created: ${data.user.name} (ID: ${data.id})`
+      : status === "error"
+      ? `❌ Error: ${errors.join(", ")}`
+      : "";
+
   return (
     <div className="p-6 border rounded-lg">
       <h2 className="text-xl font-bold mb-4">Create User (Zod Validation)</h2>
@@ -76,16 +64,16 @@ function UserCreationExample() {
 
         <button
           type="submit"
-          disabled={state.loading}
+          disabled={isPending}
           className="px-4 py-2 bg-blue-500 text-white rounded disabled:opacity-50"
         >
-          {state.loading ? "Creating..." : "Create User"}
+          {isPending ? "Creating..." : "Create User"}
         </button>
       </form>
 
-      {state.result && (
+      {result && (
         <div className="mt-4 p-3 bg-gray-100 rounded">
-          <pre className="text-sm">{state.result}</pre>
+          <pre className="text-sm">{result}</pre>
         </div>
       )}
     </div>
@@ -93,36 +81,27 @@ function UserCreationExample() {
 }
 
 function FormDataExample() {
-  const [state, setState] = useState<{ result: string; loading: boolean }>({
-    result: "",
-    loading: false,
-  });
+  const { execute, status, isPending, data, errors, fieldErrors } =
+    useServerFn(processForm);
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    setState({ result: "", loading: true });
 
     const formData = new FormData(e.currentTarget);
 
     // TypeScript shows ExpectedInput<{name, email}> but accepts FormData at runtime
-    const response = await processForm({
+    await execute({
       input: formData as FormData & { name: string; email: string },
     });
-
-    if (response.ok) {
-      setState({
-        result: `✅ Form processed: ${JSON.stringify(response.data, null, 2)}`,
-        loading: false,
-      });
-      return;
-    }
-
-    setState({
-      result: `❌ Error: ${response.errors.join(", ")}`,
-      loading: false,
-    });
   };
 
+  const result =
+    status === "success"
+      ? `✅ Form processed: ${JSON.stringify(data, null, 2)}`
+      : status === "error"
+      ? `❌ Error: ${errors.join(", ")}`
+      : "";
+
   return (
     <div className="p-6 border rounded-lg">
       <h2 className="text-xl font-bold mb-4">
@@ -138,6 +117,9 @@ function FormDataExample() {
             className="w-full px-3 py-2 border rounded"
             placeholder="Enter your name"
           />
+          {fieldErrors?.name && (
+            <p className="mt-1 text-sm text-red-600">{fieldErrors.name[0]}</p>
+          )}
         </div>
 
         <div>
@@ -149,20 +131,86 @@ function FormDataExample() {
             className="w-full px-3 py-2 border rounded"
             placeholder="Enter your email"
           />
+          {fieldErrors?.email && (
+            <p className="mt-1 text-sm text-red-600">{fieldErrors.email[0]}</p>
+          )}
         </div>
 
         <button
           type="submit"
-          disabled={state.loading}
+          disabled={isPending}
           className="px-4 py-2 bg-green-500 text-white rounded disabled:opacity-50"
         >
-          {state.loading ? "Processing..." : "Process Form"}
+          {isPending ? "Processing..." : "Process Form"}
+        </button>
+      </form>
+
+      {result && (
+        <div className="mt-4 p-3 bg-gray-100 rounded">
+          <pre className="text-sm">{result}</pre>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function FormActionExample() {
+  const [state, action, isPending] = useActionState(subscribeAction, null);
+
+  const result = !state
+    ? ""
+    : state.ok
+    ? `✅ Subscribed: ${state.data.subscribed}`
+    : `❌ Error: ${state.errors.join(", ")}`;
+
+  return (
+    <div className="p-6 border rounded-lg">
+      <h2 className="text-xl font-bold mb-4">Subscribe (Form Action)</h2>
+      <form action={action} className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium mb-1">Name:</label>
+          <input
+            name="name"
+            type="text"
+            defaultValue={state?.values.name}
+            className="w-full px-3 py-2 border rounded"
+            placeholder="Enter your name"
+          />
+          {state && !state.ok && state.fieldErrors?.name && (
+            <p className="mt-1 text-sm text-red-600">
+              {state.fieldErrors.name[0]}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Email:</label>
+          <input
+            name="email"
+            type="text"
+            defaultValue={state?.values.email}
+            className="w-full px-3 py-2 border rounded"
+            placeholder="Enter your email"
+          />
+          {state && !state.ok && state.fieldErrors?.email && (
+            <p className="mt-1 text-sm text-red-600">
+              {state.fieldErrors.email[0]}
+            </p>
+          )}
+        </div>
+
+        <button
+          type="submit"
+          disabled={isPending}
+          className="px-4 py-2 bg-purple-500 text-white rounded disabled:opacity-50"
+        >
+          {isPending ? "Subscribing..." : "Subscribe"}
         </button>
       </form>
 
-      {state.result && (
+      {result && (
         <div className="mt-4 p-3 bg-gray-100 rounded">
-          <pre className="text-sm">{state.result}</pre>
+          <pre className="text-sm">{result}</pre>
         </div>
       )}
     </div>
@@ -180,6 +228,7 @@ export default function Home() {
         <div className="grid md:grid-cols-2 gap-8">
           <UserCreationExample />
           <FormDataExample />
+          <FormActionExample />
         </div>
 
         <div className="mt-8 p-4 bg-blue-50 rounded-lg">
@@ -194,7 +243,11 @@ export default function Home() {
               typed handler result
             </li>
             <li>
-              • Both return standardized <code>{"{ok, data?, errors?}"}</code>{" "}
+              • <strong>Form action:</strong> <code>toFormAction()</code> works
+              with <code>useActionState</code>, even without JavaScript
+            </li>
+            <li>
+              • All return standardized <code>{"{ok, data?, errors?}"}</code>{" "}
               responses
             </li>
             <li>• Validation errors are gracefully handled and displayed</li>
@@ -19,12 +19,30 @@ export const withContext = createServerFn()
     return { message: "Request processed", timestamp: context.timestamp };
   });
 
-// Multiple middleware (context flows through)
+// Multiple middleware (returned values are merged into the context)
 export const multipleMiddleware = createServerFn()
   .use(async () => ({ userId: "user-123" }))
-  .use(async (context) => ({ ...context, timestamp: Date.now() })) // receives { userId: "user-123" }
-  .use(async (context) => ({ ...context, requestId: "req-456" })) // receives { userId: "user-123", timestamp: 1234567890 }
+  .use(async () => ({ timestamp: Date.now() })) // receives { userId: "user-123" }
+  .use(async () => ({ requestId: "req-456" })) // receives { userId: "user-123", timestamp: 1234567890 }
   .handler(async ({ context }) => {
     // context = { userId: "user-123", timestamp: 1234567890, requestId: "req-456" }
     return { context };
   });
+
+// Around middleware (wraps the rest of the chain and sees its response)
+export const withTiming = createServerFn()
+  .around(async ({ next }) => {
+    const start = Date.now();
+    try {
+      const response = await next({ context: { startedAt: start } });
+      if (!response.ok) {
+        console.warn(`withTiming failed with ${response.code}`);
+      }
+      return response;
+    } finally {
+      console.log(`withTiming took ${Date.now() - start}ms`);
+    }
+  })
+  .handler(async () => {
+    return { message: "Timed request" };
+  });
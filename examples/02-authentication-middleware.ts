@@ -9,9 +9,16 @@ import { adminServerFn, authServerFn } from "./middleware";
  */
 
 // Extend the base for specific endpoints
-export const getProfile = authServerFn.handler(async ({ context }) => {
-  return { profile: context.user };
-});
+// The output schema strips everything but the public profile fields (e.g. role)
+export const getProfile = authServerFn
+  .output(
+    z.object({
+      profile: z.object({ id: z.string(), name: z.string(), email: z.string() }),
+    })
+  )
+  .handler(async ({ context }) => {
+    return { profile: context.user };
+  });
 
 export const updateProfile = authServerFn
   .validate(z.object({ name: z.string() }))
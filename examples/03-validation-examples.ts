@@ -1,6 +1,10 @@
 "use server";
 
-import { createServerFn, ValidationError } from "@/utils/create-server-fn";
+import {
+  createServerFn,
+  toFormAction,
+  ValidationError,
+} from "@/utils/create-server-fn";
 import z from "zod";
 
 /**
@@ -9,13 +13,15 @@ import z from "zod";
  */
 
 // Zod validation - types both function call AND handler
+// { formData: true } also accepts FormData, coerced to the schema (age becomes a number)
 export const createUser = createServerFn()
   .validate(
     z.object({
       name: z.string().min(2),
       email: z.string().email(),
       age: z.number().min(18),
-    })
+    }),
+    { formData: true }
   )
   .handler(async ({ input }) => {
     // input is fully typed: { name: string; email: string; age: number }
@@ -50,17 +56,38 @@ export const processForm = createServerFn()
     const name = data.get("name");
     const email = data.get("email");
 
+    // Collect errors per field so the form can show them next to each input
+    const fieldErrors: Record<string, string> = {};
+
     if (!name || typeof name !== "string") {
-      throw new ValidationError("Name required");
+      fieldErrors.name = "Name required";
     }
 
     if (!email || typeof email !== "string" || !email.includes("@")) {
-      throw new ValidationError("Valid email required");
+      fieldErrors.email = "Valid email required";
+    }
+
+    if (Object.keys(fieldErrors).length > 0) {
+      throw new ValidationError("Form is invalid", fieldErrors);
     }
 
-    return { name, email };
+    return { name: name as string, email: email as string };
   })
   .handler(async ({ input }) => {
     // input is typed: { name: string; email: string }
     return { processed: true, data: input };
   });
+
+// Form action - works with useActionState and <form action>, even without JavaScript
+export const subscribeToNewsletter = createServerFn()
+  .validate(
+    z.object({
+      name: z.string().min(2, "Name must be at least 2 characters"),
+      email: z.string().email("Enter a valid email"),
+    })
+  )
+  .handler(async ({ input }) => {
+    return { subscribed: input.email };
+  });
+
+export const subscribeAction = toFormAction(subscribeToNewsletter);
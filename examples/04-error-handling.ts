@@ -53,15 +53,21 @@ export const demonstrateErrors = createServerFn()
     }
   });
 
-// Custom error class
+// Custom error class with typed details
 class PaymentError extends ServerFnError {
-  constructor(message: string = "Payment failed") {
-    super(message, "PAYMENT_ERROR");
+  constructor(
+    message: string = "Payment failed",
+    details: { retryable: boolean } = { retryable: false }
+  ) {
+    super(message, "PAYMENT_ERROR", undefined, { details });
     this.name = "PaymentError";
   }
 }
 
+// Declared error codes: the response code is "PAYMENT_ERROR" | built-in codes,
+// and result.details is typed as { retryable: boolean } when code === "PAYMENT_ERROR"
 export const processPayment = createServerFn()
+  .errors({ PAYMENT_ERROR: z.object({ retryable: z.boolean() }) })
   .validate(
     z.object({
       amount: z.number().positive(),
@@ -70,7 +76,7 @@ export const processPayment = createServerFn()
   )
   .handler(async ({ input }) => {
     if (input.cardNumber === "4000000000000002") {
-      throw new PaymentError("Card declined");
+      throw new PaymentError("Card declined", { retryable: false });
     }
 
     return { charged: input.amount, success: true };
@@ -82,3 +88,26 @@ export const demonstrateHardError = createServerFn().handler(async () => {
   // It will crash and need to be caught by error boundary
   throw new Error("System failure - this crashes!");
 });
+
+// Masked hard errors: a configured factory turns unexpected errors into
+// { ok: false, code: "INTERNAL_ERROR", errors: ["An unexpected error occurred"], errorId }
+// and passes the original error to the reporter
+const createSafeServerFn = createServerFn.configure({
+  maskUnhandled: true,
+  onUnhandledError: (error, { errorId }) => {
+    console.error(`[${errorId}]`, error);
+  },
+});
+
+export const demonstrateMaskedError = createSafeServerFn().handler(async () => {
+  throw new Error("Database connection lost - details stay on the server");
+});
+
+// Timeouts: slower calls return { ok: false, code: "TIMEOUT" } instead of hanging
+// The signal aborts at the deadline, so the fetch below is cancelled too
+export const fetchExchangeRates = createServerFn()
+  .timeout(3000)
+  .handler(async ({ signal }) => {
+    const res = await fetch("https://api.example.com/rates", { signal });
+    return (await res.json()) as Record<string, number>;
+  });
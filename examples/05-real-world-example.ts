@@ -2,9 +2,12 @@
 
 import {
   createServerFn,
-  UnauthorizedError,
   ValidationError,
   NotFoundError,
+  allow,
+  deny,
+  invokeServerFn,
+  type Policy,
 } from "@/utils/create-server-fn";
 import z from "zod";
 import { adminServerFn } from "./middleware";
@@ -31,6 +34,7 @@ interface Post {
 // Mock data
 const mockUsers: User[] = [
   { id: "1", email: "author@example.com", name: "John Author" },
+  { id: "2", email: "reader@example.com", name: "Jane Reader" },
 ];
 
 const mockPosts: Post[] = [
@@ -43,6 +47,33 @@ const mockPosts: Post[] = [
   },
 ];
 
+// Simulates emailing a reader about a new post
+const sendNotification = async (user: User, post: Post) => {
+  console.log(`Notifying ${user.email} about "${post.title}"`);
+};
+
+// Loads the post for every endpoint that acts on one
+// Runs after validation, so it receives the validated input
+const loadPost = async ({ input }: { input: { postId: string } }) => {
+  const post = mockPosts.find((p) => p.id === input.postId);
+  if (!post) {
+    throw new NotFoundError("Post not found");
+  }
+
+  return { post };
+};
+
+// Ownership policy: denied calls return FORBIDDEN with the reason
+const isPostOwner: Policy<{ user: { id: string }; post: Post }> = ({ context }) =>
+  context.post.authorId === context.user.id ? allow() : deny("Not your post");
+
+// Reusable instance for endpoints acting on a post
+// Endpoints can add their own fields with another .validate(), merged with postId
+const postOwnerServerFn = adminServerFn
+  .validate(z.object({ postId: z.string() }))
+  .use(loadPost)
+  .authorize(isPostOwner);
+
 // Create a blog post
 export const createPost = adminServerFn
   .validate(
@@ -69,44 +100,21 @@ export const createPost = adminServerFn
     };
   });
 
-// Upload post image with FormData
+// Upload post image with FormData (File entries are kept as they are)
 export const uploadPostImage = adminServerFn
-  .validate(async (data: unknown) => {
-    if (!(data instanceof FormData)) {
-      throw new ValidationError("Expected FormData");
-    }
-
-    const postId = data.get("postId");
-    const image = data.get("image");
-
-    if (!postId || typeof postId !== "string") {
-      throw new ValidationError("Post ID required");
-    }
-
-    if (!image || !(image instanceof File)) {
-      throw new ValidationError("Image file required");
-    }
-
-    if (!image.type.startsWith("image/")) {
-      throw new ValidationError("Must be an image file");
-    }
-
-    if (image.size > 2 * 1024 * 1024) {
-      throw new ValidationError("Image must be under 2MB");
-    }
-
-    return { postId, image };
-  })
+  .validate(
+    z.object({
+      postId: z.string().min(1, "Post ID required"),
+      image: z
+        .file("Image file required")
+        .mime(["image/png", "image/jpeg", "image/gif", "image/webp"], "Must be an image file")
+        .max(2 * 1024 * 1024, "Image must be under 2MB"),
+    }),
+    { formData: true }
+  )
+  .use(loadPost)
+  .authorize(isPostOwner)
   .handler(async ({ input, context }) => {
-    const post = mockPosts.find((p) => p.id === input.postId);
-    if (!post) {
-      throw new NotFoundError("Post not found");
-    }
-
-    if (post.authorId !== context.user.id) {
-      throw new UnauthorizedError("Not your post");
-    }
-
     // Simulate image upload
     const imageUrl = `https://storage.example.com/images/${input.postId}/${input.image.name}`;
 
@@ -119,12 +127,16 @@ export const uploadPostImage = adminServerFn
   });
 
 // Get posts (public - no auth required)
+// prefault({}) makes the input optional: getPosts() runs the schema on {} and applies the defaults
 export const getPosts = createServerFn()
+  .meta({ name: "getPosts", description: "Lists posts", tags: ["posts"] })
   .validate(
-    z.object({
-      published: z.boolean().default(true),
-      limit: z.number().min(1).max(100).default(10),
-    })
+    z
+      .object({
+        published: z.boolean().default(true),
+        limit: z.number().min(1).max(100).default(10),
+      })
+      .prefault({})
   )
   .handler(async ({ input }) => {
     const filteredPosts = mockPosts
@@ -135,17 +147,13 @@ export const getPosts = createServerFn()
   });
 
 // Complex workflow: publish post and notify
-export const publishPost = adminServerFn
-  .validate(z.object({ postId: z.string() }))
-  .handler(async ({ input, context }) => {
-    const post = mockPosts.find((p) => p.id === input.postId);
-    if (!post) {
-      throw new NotFoundError("Post not found");
-    }
-
-    if (post.authorId !== context.user.id) {
-      throw new UnauthorizedError("Not your post");
-    }
+export const publishPost = postOwnerServerFn
+  .meta({
+    name: "publishPost",
+    description: "Publishes a draft post and notifies readers",
+  })
+  .handler(async ({ input, context, defer }) => {
+    const { post } = context;
 
     if (post.published) {
       throw new ValidationError("Post already published");
@@ -154,8 +162,13 @@ export const publishPost = adminServerFn
     // Update post
     post.published = true;
 
-    // Simulate sending notifications
-    const notificationsSent = mockUsers.length - 1; // Everyone except author
+    // Notify everyone except the author, but only once the call has succeeded:
+    // an error thrown after this point (or by a caller) means nothing is sent
+    const readers = mockUsers.filter((user) => user.id !== post.authorId);
+    for (const reader of readers) {
+      defer(() => sendNotification(reader, post));
+    }
+    const notificationsSent = readers.length;
 
     return {
       published: true,
@@ -164,3 +177,38 @@ export const publishPost = adminServerFn
       notificationsSent,
     };
   });
+
+// Builds on existing functions: createPost and publishPost run with this call's context,
+// so the auth middleware doesn't run again (their policies and validation still do).
+// They resolve to their data, and their error responses are thrown as ServerFnErrors.
+export const createAndPublishPost = adminServerFn
+  .validate(z.object({ title: z.string(), content: z.string() }))
+  .handler(async ({ input, context, signal, defer }) => {
+    const { post } = await invokeServerFn(createPost, { context, input, signal, defer });
+    // publishPost's notifications wait for this call to succeed too
+    const { notificationsSent } = await invokeServerFn(publishPost, {
+      context,
+      input: { postId: post.id },
+      signal,
+      defer,
+    });
+
+    return { post, notificationsSent };
+  });
+
+// Extends the post owner instance with its own input: { postId, title?, content? }
+export const updatePost = postOwnerServerFn
+  .validate(
+    z.object({
+      title: z.string().min(1).max(200).optional(),
+      content: z.string().min(1).optional(),
+    })
+  )
+  .handler(async ({ input, context }) => {
+    const { post } = context;
+
+    post.title = input.title ?? post.title;
+    post.content = input.content ?? post.content;
+
+    return { post };
+  });
@@ -0,0 +1,51 @@
+"use server";
+
+import { createServerFn, NotFoundError } from "@/utils/create-server-fn";
+import z from "zod";
+
+/**
+ * STREAMING EXAMPLES
+ * Handlers that send their result in chunks: generated text and progress updates
+ */
+
+const mockArticles: Record<string, string> = {
+  "1": "Server functions can stream their results while they are produced, so clients show them right away",
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Async generator: each yielded value is a chunk (a stand-in for LLM tokens)
+export const summarizeArticle = createServerFn()
+  .validate(z.object({ articleId: z.string() }))
+  .stream(async function* ({ input, signal }) {
+    const article = mockArticles[input.articleId];
+    if (!article) {
+      // Thrown before the first chunk: the call resolves to the NOT_FOUND response
+      throw new NotFoundError("Article not found");
+    }
+
+    const words = article.split(" ");
+    for (const word of words) {
+      await sleep(50);
+      signal.throwIfAborted();
+      yield `${word} `; // chunks: string
+    }
+
+    // Becomes the data of the final response
+    return { words: words.length };
+  });
+
+// emit(): report progress from code that isn't a generator
+export const importContacts = createServerFn()
+  .validate(z.object({ rows: z.array(z.string().email()).min(1) }))
+  .timeout(10_000)
+  .stream<{ imported: number; total: number }, { imported: number }>(
+    async ({ input, emit }) => {
+      for (let index = 0; index < input.rows.length; index++) {
+        await sleep(20); // save the contact
+        emit({ imported: index + 1, total: input.rows.length });
+      }
+
+      return { imported: input.rows.length };
+    }
+  );
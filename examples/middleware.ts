@@ -2,8 +2,12 @@
 
 import {
   UnauthorizedError,
-  ForbiddenError,
   createServerFn,
+  allow,
+  deny,
+  type Policy,
+  requestContext,
+  type RequestContext,
 } from "@/utils/create-server-fn";
 
 /**
@@ -17,41 +21,32 @@ export interface User {
   role: "user" | "admin";
 }
 
-// Mock auth function
-async function getCurrentUser(): Promise<User | null> {
+// Mock auth function: every session (even none) belongs to the test user
+async function getUserBySession(sessionId: string | undefined): Promise<User | null> {
   return {
-    id: "1",
+    id: sessionId ?? "1",
     email: "test@example.com",
     name: "Test User",
-    role: "user",
-  };
-}
-
-async function getAdminUser(): Promise<User | null> {
-  return {
-    id: "2",
-    email: "admin@example.com",
-    name: "Admin User",
     role: "admin",
   };
 }
 
-// Auth middleware
-const authMiddleware = async () => {
-  const user = await getCurrentUser();
+// Auth middleware (exported so tests can skip or replace it with testServerFn)
+// Reads the session cookie from the request context instead of next/headers,
+// so tests can pass a fake Request to testServerFn
+export const authMiddleware = async ({ request }: { request: RequestContext }) => {
+  const user = await getUserBySession(request.cookies.get("session"));
   if (!user) throw new UnauthorizedError("Login required");
   return { user };
 };
 
-// Admin middleware
-const adminMiddleware = async () => {
-  const user = await getAdminUser();
-  if (!user || user.role !== "admin")
-    throw new ForbiddenError("Admin required");
-  return { user, isAdmin: true };
-};
+// Admin policy (exported so tests can skip or replace it with testServerFn)
+// Denied calls return FORBIDDEN with the reason
+export const isAdmin: Policy<{ user: User }> = ({ context }) =>
+  context.user.role === "admin" ? allow() : deny("Admin required");
 
-export const authServerFn = createServerFn().use(authMiddleware);
-export const adminServerFn = createServerFn()
-  .use(authMiddleware)
-  .use(adminMiddleware);
+export const baseServerFn = createServerFn().use(requestContext());
+export const authServerFn = baseServerFn.use(authMiddleware);
+export const adminServerFn = authServerFn
+  .authorize(isAdmin)
+  .meta({ tags: ["admin"] });
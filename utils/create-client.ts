@@ -0,0 +1,216 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type {
+  CallOptions,
+  RouterRoutes,
+  ServerFnRouter,
+  ServerFnStream,
+} from "./create-server-fn";
+
+/**
+ * Typed HTTP client for a router built with createRouter()
+ *
+ * Only imports types from the server code, so it can be used outside of Next.js
+ * (React Native apps, Node scripts) with the router's input and response types.
+ */
+
+// ===============================
+// TYPES
+// ===============================
+
+/**
+ * Client mirroring a router's routes: each server function becomes a function with the
+ * same arguments and response, called over HTTP
+ */
+export type RouterClient<TRoutes extends RouterRoutes> = {
+  [K in keyof TRoutes]: TRoutes[K] extends (...args: infer TArgs) => infer TResult
+    ? (...args: TArgs) => TResult
+    : TRoutes[K] extends RouterRoutes
+      ? RouterClient<TRoutes[K]>
+      : never;
+};
+
+/**
+ * Options for createClient()
+ */
+export type ClientOptions = {
+  /** Headers sent with every call, e.g. an Authorization header; can be resolved per call */
+  headers?: HeadersInit | (() => HeadersInit | Promise<HeadersInit>);
+  /**
+   * fetch implementation to use
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+};
+
+// ===============================
+// CLIENT
+// ===============================
+
+/**
+ * Creates a typed client for a router mounted at `baseUrl`
+ *
+ * Calls are sent as POST requests: the input as a JSON body, or as-is for FormData and
+ * URLSearchParams, and `signal` aborts the request. Error responses resolve like they do
+ * for server actions; a response that isn't a server function response (e.g. a crash
+ * on the server) rejects. Streaming functions resolve to `{ ok: true, stream, result }`
+ * like their server actions do.
+ *
+ * Inputs are sent as JSON, so values JSON can't represent (dates, Maps, ...) must be
+ * accepted by the schema in their JSON form.
+ *
+ * @param baseUrl - URL the router is mounted at, e.g. "https://example.com/api/rpc"
+ * @param options - Headers and fetch implementation
+ * @returns Client with one function per server function of the router
+ *
+ * @example
+ * ```ts
+ * import type { router } from "@/app/api/rpc/router";
+ *
+ * const api = createClient<typeof router>("https://example.com/api/rpc", {
+ *   headers: async () => ({ authorization: `Bearer ${await getToken()}` }),
+ * });
+ *
+ * const result = await api.posts.create({ input: { title: "Hello" } });
+ * if (result.ok) {
+ *   console.log(result.data); // typed like the server function's response
+ * }
+ * ```
+ */
+export function createClient<TRouter extends ServerFnRouter<any>>(
+  baseUrl: string,
+  options: ClientOptions = {}
+): RouterClient<TRouter["routes"]> {
+  const base = baseUrl.replace(/\/+$/, "");
+
+  const call = async (
+    path: string[],
+    args: ({ input?: unknown } & CallOptions) | undefined
+  ) => {
+    const url = `${base}/${path.map(encodeURIComponent).join("/")}`;
+    const input = args?.input;
+    const isForm = input instanceof FormData || input instanceof URLSearchParams;
+
+    const headers = new Headers(
+      typeof options.headers === "function"
+        ? await options.headers()
+        : options.headers
+    );
+    if (!isForm && input !== undefined) {
+      headers.set("content-type", "application/json");
+    }
+
+    const response = await (options.fetch ?? fetch)(url, {
+      method: "POST",
+      headers,
+      body: isForm || input === undefined ? input : JSON.stringify(input),
+      signal: args?.signal,
+    });
+
+    const contentType = response.headers.get("content-type") ?? "";
+    if (contentType.includes("application/x-ndjson") && response.body) {
+      return readStreamResponse(response.body);
+    }
+
+    if (!contentType.includes("application/json")) {
+      throw new Error(
+        `Request to ${url} failed with status ${response.status}`
+      );
+    }
+
+    return response.json();
+  };
+
+  return createPathProxy([], call);
+}
+
+/**
+ * Proxy that collects property names into a path and sends the call when invoked
+ */
+function createPathProxy(
+  path: string[],
+  call: (path: string[], args: any) => Promise<unknown>
+): any {
+  return new Proxy(() => {}, {
+    get: (_target, key) =>
+      // "then" is left undefined so the client isn't mistaken for a promise
+      typeof key === "string" && key !== "then"
+        ? createPathProxy([...path, key], call)
+        : undefined,
+    apply: (_target, _thisArg, [args]) => call(path, args),
+  });
+}
+
+// ===============================
+// STREAMING
+// ===============================
+
+/**
+ * Reads the newline-delimited JSON of a streaming function into `{ ok: true, stream, result }`
+ * The body is read right away, so `result` resolves even when the stream isn't read.
+ */
+function readStreamResponse(
+  body: ReadableStream<Uint8Array>
+): ServerFnStream<unknown, unknown> {
+  let controller!: ReadableStreamDefaultController<unknown>;
+  let cancelled = false;
+  const chunks = new ReadableStream<unknown>(
+    {
+      start: (streamController) => {
+        controller = streamController;
+      },
+      cancel: () => {
+        cancelled = true;
+      },
+    },
+    { highWaterMark: Infinity }
+  );
+
+  const result = (async () => {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        throw new Error("The stream ended before its result");
+      }
+
+      const lines = (buffer + decoder.decode(value, { stream: true })).split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (!line.trim()) continue;
+
+        const event = JSON.parse(line);
+        if ("result" in event) {
+          return event.result;
+        }
+        if (!cancelled) controller.enqueue(event.chunk);
+      }
+    }
+  })();
+  result.then(
+    () => cancelled || controller.close(),
+    (error) => cancelled || controller.error(error)
+  );
+
+  return { ok: true, stream: readChunks(chunks), result };
+}
+
+/**
+ * Reads a stream with `for await` (ReadableStream isn't async iterable in every browser)
+ */
+async function* readChunks<T>(
+  readable: ReadableStream<T>
+): AsyncGenerator<T, void, undefined> {
+  const reader = readable.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -1,4 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import { cookies, headers } from "next/headers";
+import { unstable_rethrow } from "next/navigation";
+import { after } from "next/server";
 import { z } from "zod";
 
 /**
@@ -6,9 +9,10 @@ import { z } from "zod";
  *
  * This module provides a fluent API for creating server functions with:
  * - Sequential middleware execution with type-safe context chaining
- * - Flexible validation (Zod schemas or custom functions)
+ * - Flexible validation (Zod, any Standard Schema validator, or custom functions)
  * - Standardized error handling with soft errors
- * - Consistent response format: { ok: boolean, data?: T, code?: string, errors?: string[] }
+ * - Consistent response format: { ok: boolean, data?: T, code?: string, errors?: string[], fieldErrors?: {...} }
+ * - Configurable policy for unexpected (hard) errors via createServerFn.configure()
  */
 
 // ===============================
@@ -20,11 +24,39 @@ import { z } from "zod";
  */
 export type MiddlewareContext = Record<string, any>;
 
+/**
+ * Context before any middleware has run
+ */
+export type EmptyContext = Record<never, never>;
+
 /**
  * Generic result type for middleware return values
  */
 export type MiddlewareResult<T = any> = T;
 
+declare const replacedContextBrand: unique symbol;
+
+/**
+ * Middleware result that replaces the whole context instead of merging into it
+ * Created with `replaceContext()`
+ */
+export type ReplacedContext<T extends MiddlewareContext> = {
+  readonly [replacedContextBrand]: T;
+};
+
+/**
+ * Context type after a middleware returns `TResult`:
+ * - plain objects are merged into the context (their keys win)
+ * - `replaceContext(value)` replaces the context with `value`
+ * - returning nothing leaves the context unchanged
+ */
+export type MergeContext<TContext, TResult> =
+  TResult extends ReplacedContext<infer TReplaced>
+    ? TReplaced
+    : TResult extends void | undefined
+    ? TContext
+    : Omit<TContext, keyof TResult> & TResult;
+
 // ===============================
 // RESPONSE TYPES
 // ===============================
@@ -39,22 +71,162 @@ export type ServerFnSuccessResponse<T> = {
 };
 
 /**
- * Error server function response
- * Contains error code and array of error messages
+ * Dotted paths into a value, used as keys for field-level errors
+ * Nested objects and arrays are included, e.g. "address.street" or "tags.0"
+ * Falls back to `string` when the input type is unknown
+ */
+export type FieldPath<T> = unknown extends T ? string : FieldPathImpl<T, []>;
+
+type FieldPathImpl<T, TDepth extends unknown[]> = TDepth["length"] extends 6
+  ? string
+  : T extends Blob | Date
+  ? never
+  : T extends ReadonlyArray<infer TItem>
+  ? `${number}` | `${number}.${FieldPathImpl<TItem, [...TDepth, unknown]>}`
+  : T extends object
+  ? {
+      [K in keyof T & (string | number)]-?:
+        | `${K}`
+        | `${K}.${FieldPathImpl<NonNullable<T[K]>, [...TDepth, unknown]>}`;
+    }[keyof T & (string | number)]
+  : never;
+
+/**
+ * Map of field path to the error messages for that field
+ * @example { "email": ["Invalid email"], "tags.0": ["Too short"] }
  */
-export type ServerFnErrorResponse = {
+export type FieldErrors<TInput = unknown> = Partial<
+  Record<FieldPath<TInput>, string[]>
+>;
+
+/**
+ * Error codes produced by the built-in error classes and validation
+ */
+export type BuiltInErrorCode =
+  | "SERVER_ERROR"
+  | "VALIDATION_ERROR"
+  | "UNAUTHORIZED"
+  | "FORBIDDEN"
+  | "NOT_FOUND"
+  | "TIMEOUT"
+  | "INTERNAL_ERROR";
+
+/**
+ * Error codes a server function declares with `.errors()`, mapped to the schema of their details
+ */
+export type ErrorMap = Record<string, z.ZodType>;
+
+/**
+ * Fields shared by every error response
+ */
+type ErrorResponseBase<TInput> = {
   ok: false;
-  code: string;
   errors: string[];
+  fieldErrors?: FieldErrors<TInput>;
+  formErrors?: string[];
+  /** Correlation ID of a masked unexpected error (code "INTERNAL_ERROR") */
+  errorId?: string;
 };
 
+/**
+ * Error server function response
+ * Contains error code and array of error messages.
+ * Validation failures also carry `fieldErrors` (keyed by dotted path) and
+ * `formErrors` (issues that don't belong to a specific field).
+ *
+ * When error codes are declared with `.errors()`, `code` is a literal union of the declared
+ * and built-in codes, and `details` is typed per code.
+ */
+export type ServerFnErrorResponse<
+  TInput = unknown,
+  TErrors extends ErrorMap | undefined = undefined
+> = TErrors extends ErrorMap
+  ?
+      | {
+          [K in keyof TErrors & string]: ErrorResponseBase<TInput> & {
+            code: K;
+            details: z.output<TErrors[K]>;
+          };
+        }[keyof TErrors & string]
+      | (ErrorResponseBase<TInput> & {
+          code: Exclude<BuiltInErrorCode, keyof TErrors>;
+          details?: undefined;
+        })
+  : ErrorResponseBase<TInput> & {
+      code: string;
+      details?: unknown;
+    };
+
 /**
  * Union type for all possible server function responses
  * Always returns either success with data or error with code/messages
  */
-export type ServerFnResponse<T> =
-  | ServerFnSuccessResponse<T>
-  | ServerFnErrorResponse;
+export type ServerFnResponse<
+  T,
+  TInput = unknown,
+  TErrors extends ErrorMap | undefined = undefined
+> = ServerFnSuccessResponse<T> | ServerFnErrorResponse<TInput, TErrors>;
+
+/**
+ * A streaming server function (`.stream()`) that got past its middleware and validation
+ * - stream: The chunks in the order they were produced, for `for await`
+ * - result: Resolves once the stream ends to the final response: `{ ok: true, data }` with
+ *   what the handler returned, or the error response when it failed midway
+ */
+export type ServerFnStream<TChunk, TResponse> = {
+  ok: true;
+  stream: AsyncIterable<TChunk>;
+  result: Promise<TResponse>;
+};
+
+/**
+ * What a streaming server function resolves to: its stream once the first chunk is produced,
+ * or the error response when the call fails before that (validation, middleware, policies,
+ * or the handler itself)
+ */
+export type ServerFnStreamResponse<TChunk, TResponse> =
+  | ServerFnStream<TChunk, TResponse>
+  | Extract<TResponse, { ok: false }>;
+
+/**
+ * A validator implementing the Standard Schema spec (https://standardschema.dev)
+ * Implemented by Zod, Valibot, ArkType and others
+ */
+export type StandardSchemaV1<TIn = unknown, TOut = TIn> = {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<TOut> | Promise<StandardSchemaResult<TOut>>;
+    readonly types?: { readonly input: TIn; readonly output: TOut } | undefined;
+  };
+};
+
+/**
+ * Result of a Standard Schema validation: the output value or a list of issues
+ */
+export type StandardSchemaResult<T> =
+  | { readonly value: T; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/**
+ * A single Standard Schema issue, with the path to the value it's about
+ */
+export type StandardSchemaIssue = {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+};
+
+/** The type a Standard Schema accepts */
+export type InferSchemaInput<TSchema extends StandardSchemaV1> = NonNullable<
+  TSchema["~standard"]["types"]
+>["input"];
+
+/** The type a Standard Schema produces */
+export type InferSchemaOutput<TSchema extends StandardSchemaV1> = NonNullable<
+  TSchema["~standard"]["types"]
+>["output"];
 
 /**
  * Helper type for better DX when using custom validation functions
@@ -65,23 +237,376 @@ export type ExpectedInput<T> = T & {
   readonly __inputHint?: "This function expects input to be validated to this type";
 };
 
+// ===============================
+// CONFIGURATION TYPES
+// ===============================
+
+/**
+ * Information passed to the unhandled error hook
+ */
+export type UnhandledErrorInfo = {
+  /** The call's request ID, also sent to the client when the error is masked */
+  errorId: string;
+};
+
+/**
+ * Options for a configured server function factory (see createServerFn.configure)
+ */
+export type ServerFnConfig = {
+  /**
+   * Turn unexpected (non-ServerFnError) errors into an `INTERNAL_ERROR` response with a
+   * generated `errorId` and a sanitized message, instead of re-throwing them
+   * @default false
+   */
+  maskUnhandled?: boolean;
+  /**
+   * Message sent to the client for masked errors
+   * @default "An unexpected error occurred"
+   */
+  unhandledMessage?: string;
+  /**
+   * Receives every unexpected error with its generated ID, e.g. to send it to an error reporter.
+   * Called whether or not the error is masked. Failures inside the hook are logged and ignored.
+   */
+  onUnhandledError?: (
+    error: unknown,
+    info: UnhandledErrorInfo
+  ) => void | Promise<void>;
+  /**
+   * Receives errors thrown by deferred tasks (`defer`), which run after the response is sent
+   * and can't change it. Without this hook they are logged.
+   */
+  onDeferredError?: (error: unknown, info: CallInfo) => void | Promise<void>;
+};
+
+// ===============================
+// INSTRUMENTATION TYPES
+// ===============================
+
+/** The kinds of steps a call goes through */
+export type StepKind = "use" | "around" | "authorize" | "validate" | "handler";
+
+/**
+ * Timing and outcome of one step of a call
+ */
+export type StepInfo = {
+  kind: StepKind;
+  /** Name of the middleware or handler function, the validator's vendor for schemas, or the kind */
+  name: string;
+  /** Position in the chain; the handler comes after the last step */
+  index: number;
+  /** Milliseconds the step took; around middleware include the steps they wrap */
+  duration: number;
+  /** Whether the step completed without an error */
+  ok: boolean;
+  /** Error code when the step produced an error response (undefined for hard errors) */
+  code?: string;
+};
+
+/**
+ * Identifies one call of a server function in instrumentation hooks
+ */
+export type CallInfo = {
+  /** Name of the server function: its `.meta()` name, the handler's function name, or "anonymous" */
+  name: string;
+  /** Generated for each call; also the `errorId` of unexpected errors */
+  requestId: string;
+};
+
+/**
+ * Information passed once a call has finished
+ */
+export type CallCompleteInfo = CallInfo & {
+  /** Milliseconds the whole call took */
+  duration: number;
+  /** Completed steps, in the order they finished */
+  steps: StepInfo[];
+};
+
+/**
+ * Wraps work in a tracing span, e.g. an OpenTelemetry adapter calling `startActiveSpan`
+ * Must call `fn` exactly once and return (or re-throw) its result.
+ */
+export type Tracer = {
+  trace: <T>(
+    name: string,
+    attributes: Record<string, string | number>,
+    fn: () => Promise<T>
+  ) => Promise<T>;
+};
+
+/**
+ * Hooks observing every server function call, registered with registerInstrumentation()
+ * Hooks are not awaited; failures inside them are logged and ignored.
+ */
+export type Instrumentation = {
+  /** Called when a call starts */
+  onStart?: (info: CallInfo) => void | Promise<void>;
+  /** Called when a step completes, successfully or not */
+  onStepComplete?: (info: CallInfo & { step: StepInfo }) => void | Promise<void>;
+  /** Called when a call returns a successful response */
+  onSuccess?: (info: CallCompleteInfo) => void | Promise<void>;
+  /**
+   * Called when a call returns an error response, with its code and the step that produced it
+   * (no step for timeouts)
+   */
+  onError?: (
+    info: CallCompleteInfo & { code: string; step?: StepInfo }
+  ) => void | Promise<void>;
+  /** Called when a call fails with an unexpected (hard) error, before the configured policy applies */
+  onUnhandled?: (
+    info: CallCompleteInfo & { error: unknown }
+  ) => void | Promise<void>;
+  /**
+   * Wraps each call (span "serverFn <name>") and each of its steps
+   * (span "serverFn <name> <kind>") in a tracing span
+   */
+  tracer?: Tracer;
+};
+
+// ===============================
+// REGISTRY TYPES
+// ===============================
+
+/**
+ * Descriptive information about a server function, set with `.meta()`
+ */
+export type ServerFnMeta = {
+  /** Identifies the function in instrumentation, the registry and tooling */
+  name?: string;
+  /** What the function does */
+  description?: string;
+  /** Free-form labels for grouping, e.g. the feature or team it belongs to */
+  tags?: string[];
+  /** Marks the function as deprecated, optionally with what to use instead */
+  deprecated?: boolean | string;
+};
+
+/**
+ * Summary of a middleware in a registered server function
+ */
+export type MiddlewareSummary = {
+  kind: "use" | "around";
+  /** The middleware function's name, or its kind for anonymous functions */
+  name: string;
+  /** Whether it runs after `.validate()` and receives the validated input */
+  afterValidation: boolean;
+};
+
+/**
+ * Summary of a policy guarding a registered server function
+ */
+export type PolicySummary = {
+  /** The policy function's name; combined policies read like `or(isAdmin, isAuthor)` */
+  name: string;
+  /** Whether it runs after `.validate()` and receives the validated input */
+  afterValidation: boolean;
+};
+
+/**
+ * A server function recorded in the registry when `.handler()` builds it
+ */
+export type RegisteredServerFn = {
+  /** Its `.meta()` name, the handler's function name, or "anonymous" */
+  name: string;
+  meta: ServerFnMeta;
+  /** Validators in the order they were added: schemas, or custom validation functions */
+  input: (StandardSchemaV1 | ((data: unknown) => Promise<unknown>))[];
+  /** Schema the handler result is checked against (`.output()`) */
+  output?: z.ZodType;
+  /** Declared error codes and the schema of their details (`.errors()`) */
+  errors?: ErrorMap;
+  /** Middleware in the order they run */
+  middleware: MiddlewareSummary[];
+  /** Policies guarding the function (`.authorize()`), in the order they run */
+  policies: PolicySummary[];
+  /** Milliseconds before a call times out (`.timeout()`) */
+  timeout?: number;
+  /** Whether it was built with `.stream()` */
+  streaming: boolean;
+  /** Where it was built, as `file:line:column` (undefined when the stack can't be read) */
+  source?: string;
+  /** The function returned by `.handler()` or `.stream()` */
+  fn: AnyBuiltServerFn;
+};
+
 // ===============================
 // MIDDLEWARE TYPES
 // ===============================
 
 /**
- * Middleware function type - transforms context from one type to another
- * @param context - The context from the previous middleware (or empty object for first)
- * @returns Promise resolving to new context for next middleware
+ * Schedules a task to run once the call has succeeded
+ * Tasks run in the order they were deferred, after the handler and output validation,
+ * and are dropped when the call ends with an error response.
+ */
+export type DeferFn = (task: () => unknown) => void;
+
+/**
+ * Options passed to middleware alongside the context
+ * - signal: Aborted when the call times out or the caller aborts it;
+ *   pass it to database and fetch calls so they are cancelled too
+ * - request: The incoming Request when called through a route handler, or the one passed
+ *   to testServerFn() (undefined for server actions and direct calls)
+ * - defer: Schedules a side effect (emails, webhooks...) to run only if the call succeeds
+ */
+export type MiddlewareOptions = {
+  signal: AbortSignal;
+  request?: Request;
+  defer: DeferFn;
+};
+
+/**
+ * Middleware function type - produces values to add to the context
+ * @param context - The context accumulated from the previous middleware (or empty object for first)
+ * @param options - The call's abort signal
+ * @returns Promise resolving to values merged into the context, `replaceContext(...)`, or nothing
  */
 export type MiddlewareFn<TContext = any, TResult = any> = (
-  context: TContext
+  context: TContext,
+  options: MiddlewareOptions
+) => Promise<TResult>;
+
+/**
+ * Middleware function type for middleware added after `.validate()`
+ * Receives the validated input alongside the context, so it can make input-based checks
+ * @param args - The accumulated context, the validated input and the call's abort signal
+ * @returns Promise resolving to values merged into the context, `replaceContext(...)`, or nothing
+ */
+export type ValidatedMiddlewareFn<
+  TContext = any,
+  TInput = unknown,
+  TResult = any
+> = (
+  args: { context: TContext; input: TInput } & MiddlewareOptions
 ) => Promise<TResult>;
 
+/**
+ * Arguments received by an around middleware
+ * - context: The context accumulated so far
+ * - input: The raw input, or the validated input when added after `.validate()`
+ * - signal: Aborted when the call times out or the caller aborts it
+ * - request: The incoming Request when called through a route handler
+ * - defer: Schedules a side effect to run only if the call succeeds
+ * - next: Runs the rest of the chain and resolves to its response.
+ *   Soft errors (ServerFnError) resolve as error responses, hard errors reject.
+ *   Pass `{ context }` to add values to the context seen by the rest of the chain.
+ */
+export type AroundMiddlewareArgs<
+  TContext = any,
+  TInput = unknown,
+  TExtraContext extends MiddlewareContext = EmptyContext
+> = {
+  context: TContext;
+  input: TInput;
+  signal: AbortSignal;
+  request?: Request;
+  defer: DeferFn;
+  next: (options?: {
+    context?: TExtraContext;
+  }) => Promise<ServerFnResponse<any>>;
+};
+
+/**
+ * Around (onion-style) middleware type - wraps everything that comes after it
+ * Must call `next()` to continue and return a response (usually the one from `next()`)
+ */
+export type AroundMiddlewareFn<
+  TContext = any,
+  TInput = unknown,
+  TExtraContext extends MiddlewareContext = EmptyContext
+> = (
+  args: AroundMiddlewareArgs<TContext, TInput, TExtraContext>
+) => Promise<ServerFnResponse<any>>;
+
+/**
+ * Request data added to the context by `requestContext()`
+ * - headers: The request headers (read-only)
+ * - cookies: Cookie values keyed by name
+ * - ip: The client IP from `x-forwarded-for` or `x-real-ip`, if a trusted proxy set them
+ * - locale: The preferred locale from `accept-language`; one of the supported locales
+ *   (or the default) when they are given
+ */
+export type RequestContext<TLocale extends string | undefined = string | undefined> = {
+  headers: Headers;
+  cookies: ReadonlyMap<string, string>;
+  ip: string | undefined;
+  locale: TLocale;
+};
+
+/**
+ * Proxy options for requestContext()
+ * - trustedProxies: Proxies in front of the app that append to `x-forwarded-for` (default 1).
+ *   `ip` is the entry added by the outermost one; entries left of it are set by the client
+ *   and can be spoofed. `0` ignores the forwarding headers.
+ */
+export type RequestContextProxyOptions = {
+  trustedProxies?: number;
+};
+
+/**
+ * Options for requestContext()
+ * - locales: Supported locales, matched against `accept-language` by tag, then by language
+ * - defaultLocale: Used when none of the preferred languages is supported
+ */
+export type RequestContextOptions<TLocale extends string> = RequestContextProxyOptions & {
+  locales: readonly TLocale[];
+  defaultLocale: NoInfer<TLocale>;
+};
+
+// ===============================
+// AUTHORIZATION TYPES
+// ===============================
+
+/**
+ * Outcome of a policy: allowed, or denied with an optional reason
+ * The reason becomes the FORBIDDEN response's message, so it is shown to the client.
+ */
+export type PolicyDecision = { allow: true } | { allow: false; reason?: string };
+
+/**
+ * Authorization policy added with `.authorize()`
+ * Receives the context and the input (validated when added after `.validate()`) and returns
+ * a decision, or a boolean as a shorthand for allowing or denying without a reason.
+ * Its function name identifies it in the registry, so prefer named functions.
+ */
+export type Policy<TContext = any, TInput = any> = (args: {
+  context: TContext;
+  input: TInput;
+}) => PolicyDecision | boolean | Promise<PolicyDecision | boolean>;
+
+/**
+ * Turns a union into the intersection of its members
+ */
+type UnionToIntersection<T> = (
+  T extends any ? (arg: T) => void : never
+) extends (arg: infer TIntersection) => void
+  ? TIntersection
+  : never;
+
+/**
+ * Policy combining several policies with `and()` or `or()`
+ * It needs everything each of them needs: the intersection of their contexts and inputs.
+ */
+export type CombinedPolicy<TPolicies extends Policy[]> = (
+  args: UnionToIntersection<Parameters<TPolicies[number]>[0]>
+) => Promise<PolicyDecision>;
+
 // ===============================
 // ERROR CLASSES
 // ===============================
 
+/**
+ * Extra structured data that can be attached to a ServerFnError
+ */
+export type ServerFnErrorOptions = {
+  /** Field-level messages keyed by dotted path */
+  fieldErrors?: FieldErrors<any>;
+  /** Messages that don't belong to a specific field */
+  formErrors?: string[];
+  /** Structured payload for the error code, typed on the client when declared with `.errors()` */
+  details?: unknown;
+};
+
 /**
  * Base error class for gracefully handled errors that return structured responses instead of throwing
  *
@@ -97,19 +622,34 @@ export type MiddlewareFn<TContext = any, TResult = any> = (
  *   "Email is invalid"
  * ]);
  * // Returns: { ok: false, code: "VALIDATION_ERROR", errors: ["Name is required", "Email is invalid"] }
+ *
+ * // With details for a code declared in .errors()
+ * throw new ServerFnError("Card declined", "PAYMENT_ERROR", undefined, {
+ *   details: { retryable: false },
+ * });
+ * // Returns: { ok: false, code: "PAYMENT_ERROR", errors: ["Card declined"], details: { retryable: false } }
  * ```
  */
 export class ServerFnError extends Error {
   public code: string = "SERVER_ERROR";
   public errors: string[] = [];
+  public fieldErrors?: FieldErrors<any>;
+  public formErrors?: string[];
+  public details?: unknown;
 
   /**
    * Creates a new ServerFnError
    * @param message - Main error message
    * @param code - Error code (defaults to "SERVER_ERROR")
    * @param errors - Array of specific error messages (defaults to [message])
+   * @param options - Extra structured data such as field-level errors
    */
-  constructor(message: string, code?: string, errors?: string[]) {
+  constructor(
+    message: string,
+    code?: string,
+    errors?: string[],
+    options?: ServerFnErrorOptions
+  ) {
     super(message);
     this.name = "ServerFnError";
 
@@ -123,16 +663,46 @@ export class ServerFnError extends Error {
       // If no errors array provided, use the message
       this.errors = [message];
     }
+
+    if (options?.fieldErrors) {
+      this.fieldErrors = options.fieldErrors;
+    }
+
+    if (options?.formErrors) {
+      this.formErrors = options.formErrors;
+    }
+
+    if (options?.details !== undefined) {
+      this.details = options.details;
+    }
   }
 }
 
 /**
  * Pre-defined error class for validation failures
+ * Accepts either a list of messages or a map of field path to message(s)
+ *
  * @example throw new ValidationError("Form validation failed", ["Name required", "Email invalid"])
+ * @example throw new ValidationError("Form validation failed", { name: "Name required", email: ["Email invalid"] })
  */
 export class ValidationError extends ServerFnError {
-  constructor(message: string = "Validation failed", errors?: string[]) {
-    super(message, "VALIDATION_ERROR", errors);
+  constructor(
+    message: string = "Validation failed",
+    errors?: string[] | Record<string, string | string[]>
+  ) {
+    if (errors === undefined || Array.isArray(errors)) {
+      super(message, "VALIDATION_ERROR", errors);
+    } else {
+      // Normalize the field map so every field holds an array of messages
+      const fieldErrors: Record<string, string[]> = {};
+      for (const [path, messages] of Object.entries(errors)) {
+        fieldErrors[path] = Array.isArray(messages) ? messages : [messages];
+      }
+      super(message, "VALIDATION_ERROR", Object.values(fieldErrors).flat(), {
+        fieldErrors,
+        formErrors: [],
+      });
+    }
     this.name = "ValidationError";
   }
 }
@@ -170,10 +740,181 @@ export class NotFoundError extends ServerFnError {
   }
 }
 
+/**
+ * Pre-defined error class for calls that exceed their `.timeout()`
+ * It is also the reason of the aborted signal, so code that re-throws
+ * `signal.reason` (e.g. `signal.throwIfAborted()`) still returns a TIMEOUT response
+ * @example throw new TimeoutError("Report generation took too long")
+ */
+export class TimeoutError extends ServerFnError {
+  constructor(message: string = "Timed out") {
+    super(message, "TIMEOUT");
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * Hard error thrown when a handler result doesn't match the builder's output schema
+ * This is a bug in the server function, so it is never turned into a soft error response.
+ * In development the message shows a diff of what was expected and what was returned.
+ */
+export class OutputValidationError extends Error {
+  public issues: z.core.$ZodIssue[];
+
+  constructor(error: z.ZodError, output: unknown) {
+    super(
+      process.env.NODE_ENV === "production"
+        ? `Server function output validation failed (${error.issues.length} issue(s))`
+        : formatOutputDiff(error, output)
+    );
+    this.name = "OutputValidationError";
+    this.issues = error.issues;
+  }
+}
+
 // ===============================
 // SERVER FUNCTION BUILDER INTERFACE
 // ===============================
 
+/**
+ * What the handler must return: the output schema's input type when one is declared
+ */
+export type HandlerResult<TOutputSchema, TOutput> =
+  TOutputSchema extends z.ZodType ? z.input<TOutputSchema> : TOutput;
+
+/**
+ * The `data` type of a successful response: the output schema's output type when one is declared
+ */
+export type ResponseData<TOutputSchema, TOutput> =
+  TOutputSchema extends z.ZodType ? z.output<TOutputSchema> : TOutput;
+
+/**
+ * Options every server function call accepts alongside its input
+ */
+export type CallOptions = {
+  /**
+   * Aborts the call: middleware and the handler see it through their `signal`,
+   * and the call rejects with the signal's reason. Only usable when calling on the server
+   * (server components, route handlers), since a signal can't be sent from the client.
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * Function returned by `.handler()` for validated server functions
+ * The arguments are optional when the validator accepts `undefined` (e.g. a schema with `.optional()`)
+ */
+export type ValidatedServerFn<TCallInput, TResponse> =
+  undefined extends TCallInput
+    ? (args?: { input?: TCallInput } & CallOptions) => Promise<TResponse>
+    : (args: { input: TCallInput } & CallOptions) => Promise<TResponse>;
+
+/**
+ * Function passed to `.stream()` that yields the chunks (an `async function*`)
+ * Its return value becomes the final response's `data`. It also receives `emit`, untyped
+ * so the chunk type is inferred from what it yields; yielding is the way to send chunks.
+ */
+export type StreamGeneratorFn<TArgs, TChunk, TResult> = (
+  args: TArgs & { emit: (chunk: any) => void }
+) => AsyncGenerator<TChunk, TResult, undefined>;
+
+/**
+ * Function passed to `.stream()` that calls `emit` for each chunk
+ * Its return value becomes the final response's `data`.
+ */
+export type StreamEmitFn<TArgs, TChunk, TResult> = (
+  args: TArgs & { emit: (chunk: TChunk) => void }
+) => Promise<TResult>;
+
+/**
+ * Function returned by `.stream()`
+ */
+export type StreamServerFn<
+  TValidated,
+  TCallInput,
+  TChunk,
+  TResponse
+> = TValidated extends true
+  ? ValidatedServerFn<TCallInput, ServerFnStreamResponse<TChunk, TResponse>>
+  : (args?: CallOptions) => Promise<ServerFnStreamResponse<TChunk, TResponse>>;
+
+/**
+ * Options for validating with a schema
+ */
+export type ValidateOptions<TFormData extends boolean = boolean> = {
+  /**
+   * Also accept FormData and URLSearchParams, converting them to an object
+   * (nested keys, repeated keys as arrays, values coerced to the schema's types)
+   * @default false
+   */
+  formData?: TFormData;
+};
+
+/** Form submissions accepted in place of an object with `{ formData: true }` */
+type FormInput = FormData | URLSearchParams;
+
+/**
+ * Validated input after calling `.validate()` again: both objects are combined
+ */
+export type MergeInput<TValidated, TInput, TNewInput> = TValidated extends true
+  ? TInput & TNewInput
+  : TNewInput;
+
+/**
+ * Call input after calling `.validate()` again: an object satisfying both validators,
+ * and FormData/URLSearchParams only when every validator accepts them
+ */
+export type MergeCallInput<TValidated, TCallInput, TNewCallInput> =
+  TValidated extends true
+    ?
+        | (Exclude<TCallInput, FormInput> & Exclude<TNewCallInput, FormInput>)
+        | ([Extract<TCallInput, FormInput>] extends [never]
+            ? never
+            : Extract<TNewCallInput, FormInput>)
+    : TNewCallInput;
+
+/**
+ * Shown as a type error when `.validate()` can't merge a validator with the earlier ones
+ */
+export type InputMergeError<TMessage extends string> = {
+  readonly __inputMergeError: TMessage;
+};
+
+/** Whether a validated input is an object that can be merged key by key */
+type IsMergeable<T> = [T] extends [object]
+  ? [T] extends [readonly unknown[]]
+    ? false
+    : true
+  : false;
+
+/** Keys both inputs have, with types that can't be satisfied at the same time */
+type ConflictingKeys<TInput, TNewInput> = {
+  [K in keyof TInput & keyof TNewInput]: [TInput[K] & TNewInput[K]] extends [never]
+    ? K
+    : never;
+}[keyof TInput & keyof TNewInput];
+
+/**
+ * Checks that a validator added after an earlier `.validate()` can be merged with it:
+ * both must produce objects, and keys they share must have compatible types
+ */
+export type CheckInputMerge<TValidated, TInput, TNewInput> = TValidated extends true
+  ? IsMergeable<TInput> extends false
+    ? InputMergeError<"validate() can't merge with the earlier validator: it doesn't produce an object">
+    : IsMergeable<TNewInput> extends false
+      ? InputMergeError<"validate() can't merge this validator: it must produce an object to combine with the earlier input">
+      : [ConflictingKeys<TInput, TNewInput>] extends [never]
+        ? unknown
+        : InputMergeError<`validate() can't merge this validator: "${ConflictingKeys<TInput, TNewInput> &
+            string}" has a type incompatible with the earlier input`>
+  : unknown;
+
+/**
+ * Declared error codes after calling `.errors()` again: later declarations win
+ */
+export type MergeErrors<TErrors, TNewErrors extends ErrorMap> =
+  TErrors extends ErrorMap ? Omit<TErrors, keyof TNewErrors> & TNewErrors : TNewErrors;
+
 /**
  * Fluent interface for building server functions with middleware, validation, and handlers
  *
@@ -181,27 +922,47 @@ export class NotFoundError extends ServerFnError {
  * - TContext: The context type (accumulated from middleware chain)
  * - TInput: The input type (set by validation)
  * - TValidated: Whether validation has been applied
- * - TIsZodSchema: Whether validation uses a Zod schema (affects typing behavior)
+ * - TCallInput: The input type callers pass (ExpectedInput for custom validators)
+ * - TOutputSchema: The Zod schema the handler result is checked against (set by output)
+ * - TErrors: The error codes declared with errors(), mapped to their details schema
  */
 export interface ServerFnBuilder<
   TContext = any,
   TInput = unknown,
   TValidated = false,
-  TIsZodSchema = false
+  TCallInput = unknown,
+  TOutputSchema extends z.ZodType | undefined = undefined,
+  TErrors extends ErrorMap | undefined = undefined
 > {
   /**
    * Add middleware to the chain. Middleware execute sequentially, each receiving
-   * the result of the previous middleware as context.
+   * the context accumulated so far. The object a middleware returns is merged into
+   * the context, so there is no need to spread the previous context.
+   *
+   * To replace or remove keys, return `replaceContext(newContext)` instead.
+   * Returning nothing leaves the context unchanged (useful for guards).
+   *
+   * Middleware keep their position in the chain: when added after `.validate()` they run
+   * after validation and receive `{ context, input }` with the validated input.
    *
-   * @param middleware - Async function that transforms context
-   * @returns New builder with updated context type
+   * @param middleware - Async function that returns values to add to the context
+   * @returns New builder with the merged context type
    *
    * @example
    * Basic chaining:
    * ```ts
    * createServerFn()
    *   .use(async () => ({ user: { id: 1 } }))
-   *   .use(async (ctx) => ({ ...ctx, timestamp: Date.now() }))
+   *   .use(async (ctx) => ({ timestamp: Date.now() })) // ctx: { user: { id: number } }
+   *   .handler(async ({ context }) => context) // { user: { id: number }; timestamp: number }
+   * ```
+   *
+   * @example
+   * Removing keys:
+   * ```ts
+   * createServerFn()
+   *   .use(async () => ({ user, secret: "..." }))
+   *   .use(async ({ secret, ...rest }) => replaceContext(rest)) // context: { user }
    * ```
    *
    * @example
@@ -216,7 +977,7 @@ export interface ServerFnBuilder<
    *
    * // Extend it for specific endpoints
    * export const getProtectedData = authServerFn
-   *   .use(async (ctx) => ({ ...ctx, timestamp: Date.now() }))
+   *   .use(async () => ({ timestamp: Date.now() }))
    *   .validate(z.object({ id: z.string() }))
    *   .handler(async ({ input, context }) => {
    *     // context.user is available from authServerFn
@@ -224,16 +985,150 @@ export interface ServerFnBuilder<
    *     return { data: "protected", userId: context.user.id };
    *   });
    * ```
-   */
-  use<TResult>(
-    middleware: MiddlewareFn<TContext, TResult>
-  ): ServerFnBuilder<TResult, TInput, TValidated, TIsZodSchema>;
-
-  /**
-   * Add validation using a Zod schema. This provides full type safety for both
-   * the function call and the handler.
    *
-   * @param schema - Zod schema for validation
+   * @example
+   * Input-based checks after validation:
+   * ```ts
+   * const postOwnerServerFn = authServerFn
+   *   .validate(z.object({ postId: z.string() }))
+   *   .use(async ({ context, input }) => {
+   *     const post = await db.posts.find(input.postId); // input: { postId: string }
+   *     if (post.authorId !== context.user.id) throw new ForbiddenError("Not your post");
+   *     return { post };
+   *   });
+   * ```
+   */
+  use<TResult extends MiddlewareContext | void>(
+    middleware: TValidated extends true
+      ? ValidatedMiddlewareFn<TContext, TInput, TResult>
+      : MiddlewareFn<TContext, TResult>
+  ): ServerFnBuilder<
+    MergeContext<TContext, TResult>,
+    TInput,
+    TValidated,
+    TCallInput,
+    TOutputSchema,
+    TErrors
+  >;
+
+  /**
+   * Add an around middleware to the chain. It receives a `next()` function that runs
+   * the rest of the chain (later middleware, validation and the handler) and resolves
+   * to the resulting response, which can be inspected or replaced.
+   *
+   * Use it to time handlers, wrap them in transactions, translate errors or run cleanup.
+   * Soft errors resolve as `{ ok: false }` responses, hard errors make `next()` reject.
+   * Like `.use()`, it keeps its position: after `.validate()` it receives the validated input.
+   *
+   * @param middleware - Async function that calls `next()` and returns a response
+   * @returns New builder with the context merged with whatever is passed to `next({ context })`
+   *
+   * @example
+   * Timing and cleanup:
+   * ```ts
+   * createServerFn()
+   *   .around(async ({ next }) => {
+   *     const start = Date.now();
+   *     try {
+   *       return await next();
+   *     } finally {
+   *       console.log(`took ${Date.now() - start}ms`);
+   *     }
+   *   })
+   * ```
+   *
+   * @example
+   * Providing context to the rest of the chain:
+   * ```ts
+   * createServerFn()
+   *   .around<{ tx: Transaction }>(async ({ next }) =>
+   *     db.transaction(async (tx) => {
+   *       const response = await next({ context: { tx } });
+   *       if (!response.ok) await tx.rollback();
+   *       return response;
+   *     })
+   *   )
+   *   .handler(async ({ context }) => context.tx.insert(...)) // context.tx is typed
+   * ```
+   */
+  around<TExtraContext extends MiddlewareContext = EmptyContext>(
+    middleware: AroundMiddlewareFn<
+      TContext,
+      TValidated extends true ? TInput : unknown,
+      TExtraContext
+    >
+  ): ServerFnBuilder<
+    MergeContext<TContext, TExtraContext>,
+    TInput,
+    TValidated,
+    TCallInput,
+    TOutputSchema,
+    TErrors
+  >;
+
+  /**
+   * Add an authorization policy to the chain. The policy receives the context and the input
+   * and allows or denies the call; a denial returns a FORBIDDEN response with its reason.
+   * Like `.use()`, it keeps its position: after `.validate()` it receives the validated input.
+   *
+   * @param policy - Function returning `allow()`, `deny(reason)` or a boolean;
+   *   combine several with `and()` and `or()`
+   * @returns New builder with the same context
+   *
+   * @example
+   * ```ts
+   * const isAdmin: Policy<{ user: User }> = ({ context }) =>
+   *   context.user.role === "admin" ? allow() : deny("Admins only");
+   *
+   * const isAuthor: Policy<{ user: User }, { postId: string }> = async ({ context, input }) => {
+   *   const post = await db.posts.find(input.postId);
+   *   return post.authorId === context.user.id ? allow() : deny("Not your post");
+   * };
+   *
+   * authServerFn
+   *   .validate(z.object({ postId: z.string() }))
+   *   .authorize(or(isAdmin, isAuthor))
+   *   .handler(async ({ input }) => db.posts.delete(input.postId));
+   * // Denied: { ok: false, code: "FORBIDDEN", errors: ["Admins only"] }
+   * ```
+   */
+  authorize(
+    policy: Policy<TContext, TValidated extends true ? TInput : unknown>
+  ): ServerFnBuilder<
+    TContext,
+    TInput,
+    TValidated,
+    TCallInput,
+    TOutputSchema,
+    TErrors
+  >;
+
+  /**
+   * Add validation using a Zod schema, or any validator implementing Standard Schema
+   * (Valibot, ArkType, ...). This provides full type safety for both the function call
+   * (the schema's input type) and the handler (its output type).
+   *
+   * Validation always runs, even when the input is omitted: defaults are applied, and a
+   * missing required input returns a VALIDATION_ERROR. Functions whose schema accepts
+   * `undefined` can be called without arguments.
+   *
+   * With `{ formData: true }` the function also accepts FormData and URLSearchParams,
+   * which are converted to an object before parsing:
+   * - bracket and dotted keys become nested objects and arrays (`address.city`, `tags[0]`, `tags[]`)
+   * - repeated keys become arrays, `File` entries are kept as they are
+   * - numbers, booleans and dates are coerced from what the schema expects
+   *   (unchecked checkboxes missing from FormData become `false` unless the field has a
+   *   default, empty number inputs become `undefined`);
+   *   this coercion needs a Zod schema, other validators receive the values as strings
+   *
+   * Calling `.validate()` again (e.g. on a reusable instance) merges the inputs: every
+   * validator receives the whole raw input and their object results are combined, nested
+   * objects included. Validators that don't produce objects, or share a key with an
+   * incompatible type, are a type error. Since each one also sees the other validators'
+   * keys, a schema rejecting unknown keys (e.g. `z.strictObject`) fails on either side.
+   *
+   * @param schema - Zod or Standard Schema for validation
+   * @param options - Validation options
    * @returns New builder with typed input
    *
    * @example
@@ -245,12 +1140,56 @@ export interface ServerFnBuilder<
    * // Function call is also typed:
    * await serverFn({ input: { name: "John" } }) // TypeScript enforces this structure
    * ```
+   *
+   * @example
+   * One schema for JSON callers and native forms:
+   * ```ts
+   * const createUser = createServerFn()
+   *   .validate(z.object({ name: z.string(), age: z.number() }), { formData: true })
+   *   .handler(({ input }) => input.age) // number, even when called with FormData
+   *
+   * await createUser({ input: { name: "John", age: 30 } });
+   * await createUser({ input: new FormData(form) });
+   * ```
+   *
+   * @example
+   * Adding fields to a reusable instance:
+   * ```ts
+   * const orgServerFn = createServerFn()
+   *   .validate(z.object({ orgId: z.string() }))
+   *   .use(requireMembership);
+   *
+   * orgServerFn
+   *   .validate(z.object({ name: z.string() }))
+   *   .handler(({ input }) => input) // { orgId: string; name: string }
+   * ```
+   *
+   * @example
+   * Other Standard Schema validators:
+   * ```ts
+   * createServerFn()
+   *   .validate(v.object({ name: v.string() })) // Valibot
+   *   .handler(({ input }) => input.name)
+   * ```
    */
-  validate<TSchema extends z.ZodType>(
-    schema: TSchema
-  ): TValidated extends true
-    ? never
-    : ServerFnBuilder<TContext, z.infer<TSchema>, true, true>;
+  validate<TSchema extends StandardSchemaV1, TFormData extends boolean = false>(
+    schema: TSchema &
+      CheckInputMerge<TValidated, TInput, InferSchemaOutput<TSchema>>,
+    options?: ValidateOptions<TFormData>
+  ): ServerFnBuilder<
+    TContext,
+    MergeInput<TValidated, TInput, InferSchemaOutput<TSchema>>,
+    true,
+    MergeCallInput<
+      TValidated,
+      TCallInput,
+      TFormData extends true
+        ? InferSchemaInput<TSchema> | FormInput
+        : InferSchemaInput<TSchema>
+    >,
+    TOutputSchema,
+    TErrors
+  >;
 
   /**
    * Add validation using a custom function. This only types the handler - the function
@@ -280,14 +1219,161 @@ export interface ServerFnBuilder<
    * ```
    */
   validate<TValidationResult>(
-    validator: (data: unknown) => Promise<TValidationResult>
-  ): TValidated extends true
+    validator: (
+      data: unknown
+    ) => Promise<
+      TValidationResult & CheckInputMerge<TValidated, TInput, TValidationResult>
+    >
+  ): ServerFnBuilder<
+    TContext,
+    MergeInput<TValidated, TInput, TValidationResult>,
+    true,
+    MergeCallInput<TValidated, TCallInput, ExpectedInput<TValidationResult>>,
+    TOutputSchema,
+    TErrors
+  >;
+
+  /**
+   * Declare the shape of the handler result with a Zod schema. The result is validated
+   * and stripped (unknown keys are removed) before it is sent, so internal fields can't leak.
+   * The response `data` type is inferred from the schema.
+   *
+   * A result that doesn't match the schema is a bug, not a user error: it throws an
+   * `OutputValidationError` (hard error) whose message shows a diff in development.
+   *
+   * @param schema - Zod schema for the handler result
+   * @returns New builder whose handler must return the schema's input type
+   *
+   * @example
+   * ```ts
+   * authServerFn
+   *   .output(z.object({ profile: z.object({ id: z.string(), name: z.string() }) }))
+   *   .handler(async ({ context }) => ({ profile: context.user })) // extra user fields are stripped
+   * ```
+   */
+  output<TSchema extends z.ZodType>(
+    schema: TSchema
+  ): TOutputSchema extends z.ZodType
     ? never
-    : ServerFnBuilder<TContext, TValidationResult, true, false>;
+    : ServerFnBuilder<
+        TContext,
+        TInput,
+        TValidated,
+        TCallInput,
+        TSchema,
+        TErrors
+      >;
+
+  /**
+   * Declare the error codes this server function can return, each with a Zod schema for
+   * its `details` payload. The response `code` becomes a literal union of the declared and
+   * built-in codes, and `details` is typed per code so clients can switch on it safely.
+   *
+   * Details are parsed with the declared schema before they're sent. In development,
+   * throwing a code that wasn't declared (or details that don't match) is reported.
+   * Calling errors() again on an extended builder adds to the declared codes.
+   *
+   * @param errors - Map of error code to the schema of its details
+   * @returns New builder with typed error responses
+   *
+   * @example
+   * ```ts
+   * const pay = createServerFn()
+   *   .errors({ PAYMENT_ERROR: z.object({ retryable: z.boolean() }) })
+   *   .handler(async () => {
+   *     throw new ServerFnError("Card declined", "PAYMENT_ERROR", undefined, {
+   *       details: { retryable: false },
+   *     });
+   *   });
+   *
+   * const result = await pay();
+   * if (!result.ok && result.code === "PAYMENT_ERROR") {
+   *   result.details.retryable; // boolean
+   * }
+   * ```
+   */
+  errors<TNewErrors extends ErrorMap>(
+    errors: TNewErrors
+  ): ServerFnBuilder<
+    TContext,
+    TInput,
+    TValidated,
+    TCallInput,
+    TOutputSchema,
+    MergeErrors<TErrors, TNewErrors>
+  >;
+
+  /**
+   * Limit how long a call may take. When the deadline passes, the call's `signal` aborts
+   * and the call returns a TIMEOUT error response right away, without waiting for the
+   * handler. The deadline covers the whole call (middleware, validation and handler),
+   * wherever `.timeout()` appears in the chain; calling it again replaces the limit.
+   *
+   * Middleware and handlers receive the signal so their work can be cancelled too:
+   * `.use()` middleware as their second argument, the others on their args.
+   *
+   * @param ms - Milliseconds before the call times out
+   * @returns New builder with the limit applied
+   *
+   * @example
+   * ```ts
+   * createServerFn()
+   *   .timeout(5000)
+   *   .use(async (context, { signal }) => ({ user: await getUser({ signal }) }))
+   *   .handler(async ({ context, signal }) => {
+   *     const res = await fetch(reportUrl(context.user), { signal });
+   *     return res.json();
+   *   });
+   * // Slower than 5s: { ok: false, code: "TIMEOUT", errors: ["Timed out after 5000ms"] }
+   * ```
+   */
+  timeout(
+    ms: number
+  ): ServerFnBuilder<
+    TContext,
+    TInput,
+    TValidated,
+    TCallInput,
+    TOutputSchema,
+    TErrors
+  >;
+
+  /**
+   * Describe the server function for logs, docs and tooling. The name is used by
+   * instrumentation and the registry, and becomes the name of the built function.
+   * Calling it again (e.g. on a reusable instance) merges with the earlier meta,
+   * so a base instance can set tags and each function its own name.
+   *
+   * @param meta - Name, description, tags and deprecation of the function
+   * @returns New builder with the meta applied
+   *
+   * @example
+   * ```ts
+   * const adminServerFn = authServerFn.authorize(isAdmin).meta({ tags: ["admin"] });
+   *
+   * export const deleteUser = adminServerFn
+   *   .meta({ name: "deleteUser", description: "Deletes a user and their posts" })
+   *   .validate(z.object({ userId: z.string() }))
+   *   .handler(async ({ input }) => db.deleteUser(input.userId));
+   * ```
+   */
+  meta(
+    meta: ServerFnMeta
+  ): ServerFnBuilder<
+    TContext,
+    TInput,
+    TValidated,
+    TCallInput,
+    TOutputSchema,
+    TErrors
+  >;
 
   /**
    * Define the final handler function. This receives the validated input (if any)
    * and the accumulated context from all middleware.
+   * When an output schema is declared, the result is validated and stripped against it.
+   * Side effects passed to `defer()` run only once all of that has succeeded, after the
+   * response is sent; their failures go to `onDeferredError` instead of the response.
    *
    * @param fn - Handler function
    * @returns Executable server function
@@ -306,212 +1392,3427 @@ export interface ServerFnBuilder<
    */
   handler<TOutput = any>(
     fn: TValidated extends true
-      ? (args: { input: TInput; context: TContext }) => Promise<TOutput>
-      : (args: { context: TContext }) => Promise<TOutput>
-  ): TValidated extends true
-    ? TIsZodSchema extends true
-      ? (args: { input: TInput }) => Promise<ServerFnResponse<TOutput>>
+      ? (args: {
+          input: TInput;
+          context: TContext;
+          signal: AbortSignal;
+          defer: DeferFn;
+        }) => Promise<HandlerResult<TOutputSchema, TOutput>>
       : (args: {
-          input: ExpectedInput<TInput>;
-        }) => Promise<ServerFnResponse<TOutput>>
-    : () => Promise<ServerFnResponse<TOutput>>;
+          context: TContext;
+          signal: AbortSignal;
+          defer: DeferFn;
+        }) => Promise<HandlerResult<TOutputSchema, TOutput>>
+  ): TValidated extends true
+    ? ValidatedServerFn<
+        TCallInput,
+        ServerFnResponse<ResponseData<TOutputSchema, TOutput>, TInput, TErrors>
+      >
+    : (args?: CallOptions) => Promise<
+        ServerFnResponse<
+          ResponseData<TOutputSchema, TOutput>,
+          unknown,
+          TErrors
+        >
+      >;
+
+  /**
+   * Define a streaming handler that calls `emit(chunk)` for each chunk
+   * The chunk type can't be inferred from the calls, so pass it: `.stream<Progress>(...)`.
+   *
+   * @param fn - Async function receiving `emit` alongside the usual handler arguments
+   * @returns Executable server function resolving to the stream
+   *
+   * @example
+   * ```ts
+   * createServerFn().stream<{ done: number }>(async ({ emit }) => {
+   *   for (const [index, row] of rows.entries()) {
+   *     await importRow(row);
+   *     emit({ done: index + 1 });
+   *   }
+   * });
+   * ```
+   */
+  stream<TChunk, TOutput = any>(
+    fn: StreamEmitFn<
+      TValidated extends true
+        ? {
+            input: TInput;
+            context: TContext;
+            signal: AbortSignal;
+            defer: DeferFn;
+          }
+        : { context: TContext; signal: AbortSignal; defer: DeferFn },
+      TChunk,
+      HandlerResult<TOutputSchema, TOutput>
+    >
+  ): StreamServerFn<
+    TValidated,
+    TCallInput,
+    TChunk,
+    ServerFnResponse<
+      ResponseData<TOutputSchema, TOutput>,
+      TValidated extends true ? TInput : unknown,
+      TErrors
+    >
+  >;
+
+  /**
+   * Define a streaming handler, for LLM tokens, report rows or progress updates: an async
+   * generator yielding the chunks, or an async function calling `emit(chunk)` (see below).
+   * What it returns becomes the `data` of the final response, checked against the output
+   * schema when one is declared.
+   *
+   * The call resolves as soon as the first chunk is produced, to `{ ok: true, stream, result }`,
+   * or to the error response when it fails before that (validation, middleware, the handler).
+   * The chain keeps running while the stream is produced, so around middleware,
+   * instrumentation and `.timeout()` cover all of it; a failure midway ends the stream and
+   * `result` resolves to the error response.
+   * Works through server actions and `toRouteHandler()` (as newline-delimited JSON).
+   *
+   * @param fn - Async generator function receiving the usual handler arguments
+   * @returns Executable server function resolving to the stream
+   *
+   * @example
+   * ```ts
+   * export const generateSummary = createServerFn()
+   *   .validate(z.object({ text: z.string() }))
+   *   .stream(async function* ({ input, signal }) {
+   *     for await (const token of llm.stream(input.text, { signal })) {
+   *       yield token; // chunks: string
+   *     }
+   *     return { finishedAt: new Date() };
+   *   });
+   *
+   * // Client
+   * const response = await generateSummary({ input: { text } });
+   * if (response.ok) {
+   *   for await (const token of response.stream) setSummary((s) => s + token);
+   *   const result = await response.result; // { ok: true, data: { finishedAt } } or an error
+   * }
+   * ```
+   */
+  stream<TChunk, TOutput = any>(
+    fn: StreamGeneratorFn<
+      TValidated extends true
+        ? {
+            input: TInput;
+            context: TContext;
+            signal: AbortSignal;
+            defer: DeferFn;
+          }
+        : { context: TContext; signal: AbortSignal; defer: DeferFn },
+      TChunk,
+      HandlerResult<TOutputSchema, TOutput>
+    >
+  ): StreamServerFn<
+    TValidated,
+    TCallInput,
+    TChunk,
+    ServerFnResponse<
+      ResponseData<TOutputSchema, TOutput>,
+      TValidated extends true ? TInput : unknown,
+      TErrors
+    >
+  >;
 }
 
 // ===============================
-// SERVER FUNCTION IMPLEMENTATION
+// INTERNAL HELPERS
 // ===============================
 
 /**
- * Internal implementation of the ServerFnBuilder interface
- * Handles the actual execution logic for middleware, validation, and handlers
+ * Any function returned by `.handler()` or `.stream()`
  */
-class ServerFnBuilderImpl<
-  TContext = any,
-  TInput = unknown,
-  TValidated extends boolean = false,
-  TIsZodSchema extends boolean = false
-> implements ServerFnBuilder<TContext, TInput, TValidated, TIsZodSchema>
-{
-  /** Array of middleware functions to execute in sequence */
-  private middlewares: MiddlewareFn<any, any>[] = [];
+type AnyBuiltServerFn = (
+  ...args: any[]
+) => Promise<ServerFnResponse<any, any, any> | ServerFnStream<any, any>>;
 
-  /** Validation function or Zod schema */
-  private validator?: z.ZodType | ((data: unknown) => any);
+/**
+ * Validation function or Standard Schema (Zod, Valibot, ArkType, ...)
+ */
+type Validator = StandardSchemaV1 | ((data: unknown) => any);
 
-  constructor(middlewares: MiddlewareFn<any, any>[] = []) {
-    this.middlewares = middlewares;
-  }
+/**
+ * A single link in the chain, kept in the order it was added
+ * Middleware added after validation are flagged so they receive `{ context, input }`
+ */
+type ChainStep =
+  | { kind: "use"; fn: MiddlewareFn<any, any>; afterValidation: false }
+  | { kind: "use"; fn: ValidatedMiddlewareFn<any, any, any>; afterValidation: true }
+  | { kind: "around"; fn: AroundMiddlewareFn<any, any, any> }
+  | { kind: "authorize"; fn: Policy }
+  | { kind: "validate"; validator: Validator; formData: boolean };
 
-  /** Implementation of use() - adds middleware to the chain */
-  use<TResult>(
-    middleware: MiddlewareFn<TContext, TResult>
-  ): ServerFnBuilder<TResult, TInput, TValidated, TIsZodSchema> {
-    // Create new builder with middleware added to the chain
-    return new ServerFnBuilderImpl<TResult, TInput, TValidated, TIsZodSchema>([
-      ...this.middlewares,
-      middleware,
-    ]);
-  }
+/**
+ * Per-call settings used by adapters when running a server function
+ */
+type ExecutionOptions = {
+  /** Convert FormData/URLSearchParams input for Zod validators even without `{ formData: true }` */
+  coerceFormData?: boolean;
+  /** Aborts the call, like the `signal` call option (e.g. the request's signal) */
+  signal?: AbortSignal;
+  /** The incoming Request, passed to middleware by route handlers */
+  request?: Request;
+  /** Context the chain starts with, instead of an empty one */
+  context?: MiddlewareContext;
+  /** Receives the chunks of a streaming handler (`.stream()`) */
+  emit?: (chunk: unknown) => void;
+  /** Middleware that don't run because they already ran for the caller (invokeServerFn()) */
+  skip?: ReadonlySet<unknown>;
+  /** Re-throw unexpected errors instead of applying the configured policy (nested calls) */
+  rethrowUnhandled?: boolean;
+  /** Hands deferred tasks to the caller instead of running them (invokeServerFn()) */
+  defer?: DeferFn;
+};
 
-  /** Implementation of validate() - adds validation to the chain */
-  validate<TValidationResult>(
-    validator:
-      | z.ZodType<TValidationResult>
-      | ((data: unknown) => Promise<TValidationResult>)
-  ): TValidated extends true
-    ? never
-    : ServerFnBuilder<TContext, TValidationResult, true, any> {
-    if (this.validator) {
-      throw new Error("validate() can only be called once");
+/**
+ * Creates the signal seen by middleware and handlers for one call
+ * It aborts when any of the given signals aborts (with the same reason),
+ * or with a TimeoutError once `timeout` milliseconds have passed.
+ * `cleanup` must be called when the call settles.
+ */
+function createCallSignal(
+  signals: (AbortSignal | undefined)[],
+  timeout: number | undefined
+): { signal: AbortSignal; cleanup: () => void } {
+  const controller = new AbortController();
+  const cleanups: (() => void)[] = [];
+
+  for (const signal of signals) {
+    if (!signal) continue;
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
     }
+    const onAbort = () => controller.abort(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    cleanups.push(() => signal.removeEventListener("abort", onAbort));
+  }
 
-    // Create new builder with validation added
-    const newBuilder = new ServerFnBuilderImpl<
-      TContext,
-      TValidationResult,
-      true,
-      any
-    >(this.middlewares);
-    newBuilder.validator = validator;
-    return newBuilder as any;
+  if (timeout !== undefined && !controller.signal.aborted) {
+    const timer = setTimeout(
+      () => controller.abort(new TimeoutError(`Timed out after ${timeout}ms`)),
+      timeout
+    );
+    cleanups.push(() => clearTimeout(timer));
   }
 
-  /**
-   * Implementation of handler() - creates the final executable server function
-   * This is where all the magic happens: middleware execution, validation, and error handling
-   */
-  handler<TOutput = any>(
-    fn: TValidated extends true
-      ? (args: { input: TInput; context: TContext }) => Promise<TOutput>
-      : (args: { context: TContext }) => Promise<TOutput>
-  ): TValidated extends true
-    ? (args: { input: TInput }) => Promise<ServerFnResponse<TOutput>>
-    : () => Promise<ServerFnResponse<TOutput>> {
-    return (async (args?: { input?: any }) => {
-      try {
-        const input = args?.input;
+  return {
+    signal: controller.signal,
+    cleanup: () => cleanups.forEach((cleanup) => cleanup()),
+  };
+}
 
-        // STEP 1: Execute middleware chain sequentially
-        // Each middleware receives the result of the previous one as context
-        let context: any = {};
-        for (const middleware of this.middlewares) {
-          context = await middleware(context);
-        }
+/**
+ * Rejects with the signal's reason as soon as it aborts
+ * Raced against the chain so an aborted call settles without waiting for it
+ */
+function rejectOnAbort(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    signal.addEventListener("abort", () => reject(signal.reason), {
+      once: true,
+    });
+  });
+}
 
-        // STEP 2: Validate input if validator is provided
-        let validatedInput = input;
-        if (this.validator && input !== undefined) {
-          try {
-            if (typeof this.validator === "function") {
-              // Custom validation function - can handle FormData, objects, etc.
-              validatedInput = await this.validator(input);
-            } else {
-              // Zod schema validation - strict type checking
-              validatedInput = this.validator.parse(input);
-            }
-          } catch (error) {
-            if (error instanceof z.ZodError) {
-              // Return structured validation errors with VALIDATION_ERROR code
-              return {
-                ok: false,
-                code: "VALIDATION_ERROR",
-                errors: error.issues.map((issue: any) => issue.message),
-              } as any;
-            }
-            // Return unexpected validation errors
-            return {
-              ok: false,
-              code: "VALIDATION_ERROR",
-              errors: [`Validation failed: ${String(error)}`],
-            } as any;
-          }
-        }
+/** A step of the chain, or the handler that ends it */
+type InstrumentedStep = ChainStep | { kind: "handler"; fn: (...args: any[]) => unknown };
 
-        // STEP 3: Execute the handler function
-        let result;
-        if (this.validator && validatedInput !== undefined) {
-          // If we have validation, pass both validated input and accumulated context
-          result = await (fn as any)({ input: validatedInput, context });
-        } else {
-          // If no validation, just pass accumulated context
-          result = await (fn as any)({ context });
-        }
+/**
+ * Tasks deferred during one call, and whether they may run
+ */
+type DeferredTasks = {
+  tasks: (() => unknown)[];
+  /** Set once the handler and the output check have succeeded */
+  handlerSucceeded: boolean;
+  /** Set once the call has settled; tasks deferred later are dropped */
+  settled: boolean;
+};
 
-        // STEP 4: Return successful response with standardized format
-        return {
-          ok: true,
-          data: result,
-        } as any;
-      } catch (error) {
-        // STEP 5: Handle errors
-        if (error instanceof ServerFnError) {
-          // Gracefully handled errors: return structured error response (don't throw)
-          return {
-            ok: false,
-            code: error.code,
-            errors: error.errors,
-          } as any;
-        }
+/**
+ * Per-call state threaded through the chain by the implementation of handler()
+ */
+type ChainExecution = ExecutionOptions & {
+  /** Aborts on timeout or when the caller aborts */
+  signal: AbortSignal;
+  /** Collects the tasks to run once the call has succeeded */
+  defer: DeferFn;
+  /** The tasks collected by `defer` */
+  deferred: DeferredTasks;
+  /** Runs one step, timing and tracing it for the registered instrumentation */
+  runStep: <T>(
+    step: InstrumentedStep,
+    index: number,
+    fn: () => Promise<T>
+  ) => Promise<T>;
+};
 
-        // Hard errors: re-throw to crash (unexpected system errors)
-        throw error;
-      }
-    }) as any;
+/**
+ * Name of a step in instrumentation: its function's name, the validator's vendor, or its kind
+ */
+function stepName(step: InstrumentedStep): string {
+  if (step.kind === "validate") {
+    return isStandardSchema(step.validator)
+      ? step.validator["~standard"].vendor
+      : step.validator.name || step.kind;
   }
+
+  return step.fn.name || step.kind;
 }
 
-// ===============================
-// MAIN EXPORT FUNCTION
-// ===============================
+/**
+ * Code of a response when it is an error response
+ */
+function errorCodeOf(response: unknown): string | undefined {
+  const candidate = response as Partial<ServerFnErrorResponse<any>> | undefined;
+  return candidate?.ok === false ? candidate.code : undefined;
+}
+
+/** Key under which replaceContext() stores the new context */
+const REPLACE_CONTEXT = Symbol("replaceContext");
 
 /**
- * Creates a new server function builder with fluent API for Next.js
- *
- * @returns A new ServerFnBuilder instance to start building your server function
- *
- * @example
- * Basic usage:
- * ```ts
- * export const myServerFn = createServerFn()
- *   .handler(async () => ({ message: "Hello World!" }));
- * ```
- *
- * @example
- * With middleware and validation:
- * ```ts
- * export const authServerFn = createServerFn()
- *   .use(async () => ({ user: await getUser() }))
- *   .validate(z.object({ message: z.string() }))
- *   .handler(async ({ input, context }) => {
- *     return { user: context.user, echo: input.message };
- *   });
- *
- * // Usage:
- * const result = await authServerFn({ input: { message: "test" } });
- * if (result.ok) {
- *   console.log(result.data); // { user: {...}, echo: "test" }
- * } else {
- *   console.log(result.errors); // ["Validation failed"]
- * }
- * ```
- *
- * @example
- * With custom validation for FormData:
- * ```ts
- * export const formServerFn = createServerFn()
- *   .validate(async (data) => {
- *     if (!(data instanceof FormData)) {
- *       throw new ValidationError("Expected FormData");
- *     }
- *     const name = data.get('name') as string;
- *     if (!name) {
- *       throw new ValidationError("Name is required");
- *     }
- *     return { name };
- *   })
- *   .handler(async ({ input }) => ({ greeting: `Hello ${input.name}!` }));
- * ```
+ * Applies a middleware result to the context following the MergeContext rules
  */
-export function createServerFn(): ServerFnBuilder<any, unknown, false, false> {
-  return new ServerFnBuilderImpl();
+function mergeContext(context: MiddlewareContext, result: unknown): any {
+  if (result === undefined || result === null) {
+    return context;
+  }
+
+  if (typeof result === "object" && REPLACE_CONTEXT in result) {
+    return (result as { [REPLACE_CONTEXT]: MiddlewareContext })[REPLACE_CONTEXT];
+  }
+
+  return { ...context, ...result };
+}
+
+/**
+ * Middleware that ran to produce each context object, in its call and the calls above it
+ * Lets invokeServerFn() skip the middleware whose context the caller already has.
+ * Only middleware added before `.validate()` are recorded: later ones depend on the input.
+ */
+const APPLIED_MIDDLEWARE = new WeakMap<MiddlewareContext, ReadonlySet<unknown>>();
+
+/**
+ * Records that a middleware ran to produce a context, on top of those behind the context
+ * it started from. A middleware that left the context unchanged gets a copy, so the
+ * record of the context it received (possibly the caller's) isn't changed.
+ * Without `fn` (input-dependent middleware), the context only keeps the earlier record.
+ */
+function recordAppliedMiddleware(
+  context: MiddlewareContext,
+  previous: MiddlewareContext,
+  fn?: unknown
+): MiddlewareContext {
+  const next = context === previous ? { ...context } : context;
+  const applied = new Set(APPLIED_MIDDLEWARE.get(previous));
+  if (fn !== undefined) {
+    applied.add(fn);
+  }
+  APPLIED_MIDDLEWARE.set(next, applied);
+  return next;
 }
+
+/**
+ * Combines the results of two validation steps, matching the intersection of their types:
+ * plain objects are merged key by key, recursively (later values win for anything else),
+ * and other results are replaced by the later one (the types only allow merging objects)
+ */
+function mergeInput(input: unknown, result: unknown): unknown {
+  if (!isPlainObject(input) || !isPlainObject(result)) {
+    return result;
+  }
+
+  const merged: Record<string, unknown> = { ...input };
+  for (const [key, value] of Object.entries(result)) {
+    merged[key] = Object.hasOwn(merged, key) ? mergeInput(merged[key], value) : value;
+  }
+  return merged;
+}
+
+/**
+ * Whether a value is a plain object that can be merged key by key
+ * (arrays, dates, files and other class instances are kept whole)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/** Codes that are always allowed, even when a server function declares its own */
+const BUILT_IN_ERROR_CODES: readonly string[] = [
+  "SERVER_ERROR",
+  "VALIDATION_ERROR",
+  "UNAUTHORIZED",
+  "FORBIDDEN",
+  "NOT_FOUND",
+  "TIMEOUT",
+  "INTERNAL_ERROR",
+] satisfies BuiltInErrorCode[];
+
+/**
+ * Logs a problem with how a server function is written (development only)
+ */
+function reportInDev(message: string): void {
+  if (process.env.NODE_ENV !== "production") {
+    console.warn(`[createServerFn] ${message}`);
+  }
+}
+
+/**
+ * Converts a ServerFnError into its structured error response
+ * When error codes are declared, details are parsed with the code's schema
+ * and undeclared codes are reported in development
+ */
+function serverFnErrorToResponse(
+  error: ServerFnError,
+  declaredErrors?: ErrorMap
+): ServerFnErrorResponse<any> {
+  let details = error.details;
+
+  if (declaredErrors) {
+    const schema = declaredErrors[error.code];
+
+    if (schema) {
+      const parsed = schema.safeParse(details);
+      if (parsed.success) {
+        details = parsed.data;
+      } else {
+        reportInDev(
+          `Details for error code "${error.code}" don't match the declared schema:\n${z.prettifyError(parsed.error)}`
+        );
+      }
+    } else if (!BUILT_IN_ERROR_CODES.includes(error.code)) {
+      reportInDev(
+        `Error code "${error.code}" was thrown but not declared. Add it with .errors({ ${error.code}: schema }).`
+      );
+    }
+  }
+
+  return {
+    ok: false,
+    code: error.code,
+    errors: error.errors,
+    ...(error.fieldErrors && { fieldErrors: error.fieldErrors }),
+    ...(error.formErrors && { formErrors: error.formErrors }),
+    ...(details !== undefined && { details }),
+  };
+}
+
+/**
+ * Runs part of the chain, turning soft errors into error responses
+ * Hard errors are re-thrown so they crash (unexpected system errors)
+ */
+async function catchSoftErrors(
+  run: () => Promise<ServerFnResponse<any>>,
+  declaredErrors?: ErrorMap
+): Promise<ServerFnResponse<any>> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof ServerFnError) {
+      // Gracefully handled errors: return structured error response (don't throw)
+      return serverFnErrorToResponse(error, declaredErrors);
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Applies the configured policy to an unexpected (hard) error
+ * Next.js control-flow errors (redirect(), notFound(), ...) are re-thrown untouched,
+ * others are reported and either re-thrown or masked as an INTERNAL_ERROR response
+ */
+async function handleUnhandledError(
+  error: unknown,
+  config: ServerFnConfig = {},
+  errorId: string = crypto.randomUUID()
+): Promise<ServerFnErrorResponse<any>> {
+  unstable_rethrow(error);
+
+  if (config.onUnhandledError) {
+    try {
+      await config.onUnhandledError(error, { errorId });
+    } catch (hookError) {
+      console.error("[createServerFn] onUnhandledError failed:", hookError);
+    }
+  }
+
+  if (!config.maskUnhandled) {
+    // Hard errors: re-throw to crash (unexpected system errors)
+    throw error;
+  }
+
+  return {
+    ok: false,
+    code: "INTERNAL_ERROR",
+    errors: [config.unhandledMessage ?? "An unexpected error occurred"],
+    errorId,
+  };
+}
+
+/**
+ * Runs a validator against the raw input
+ * Resolves to the validated input, or to a VALIDATION_ERROR response when it fails
+ */
+async function runValidator(
+  validator: Validator,
+  input: unknown
+): Promise<ServerFnResponse<any>> {
+  try {
+    // Checked first: some schemas (e.g. ArkType) are also callable functions
+    if (isStandardSchema(validator)) {
+      // Standard Schema validation (Zod, Valibot, ArkType, ...) - strict type checking
+      const result = await validator["~standard"].validate(input);
+      if (result.issues) {
+        // Return structured validation errors with VALIDATION_ERROR code
+        return issuesToResponse(result.issues);
+      }
+      return { ok: true, data: result.value };
+    }
+
+    // Custom validation function - can handle FormData, objects, etc.
+    return { ok: true, data: await validator(input) };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      // Custom validators may call schema.parse() themselves
+      return issuesToResponse(error.issues);
+    }
+    if (error instanceof ServerFnError) {
+      // Custom validators report their own structured errors (e.g. ValidationError with a field map)
+      throw error;
+    }
+    // Return unexpected validation errors
+    return {
+      ok: false,
+      code: "VALIDATION_ERROR",
+      errors: [`Validation failed: ${String(error)}`],
+    };
+  }
+}
+
+/**
+ * Formats output schema issues as a readable diff of expected vs received values
+ *
+ * @example
+ * Server function output doesn't match its output schema:
+ *   at "profile.id"
+ *     - expected: string
+ *     + received: 42
+ */
+function formatOutputDiff(error: z.ZodError, output: unknown): string {
+  const lines = ["Server function output doesn't match its output schema:"];
+
+  for (const issue of error.issues) {
+    const received = issue.path.reduce<any>(
+      (value, key) => (value == null ? undefined : value[key as any]),
+      output
+    );
+    const path = issue.path.length > 0 ? issue.path.map(String).join(".") : "(root)";
+
+    lines.push(`  at "${path}"`);
+    lines.push(
+      `    - expected: ${"expected" in issue ? String(issue.expected) : issue.message}`
+    );
+    lines.push(`    + received: ${formatValue(received)}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Short, single-line representation of a value for error messages
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) {
+    return "undefined";
+  }
+
+  let json: string;
+  try {
+    json = JSON.stringify(value) ?? String(value);
+  } catch {
+    // Circular structures, BigInts, etc.
+    json = String(value);
+  }
+  return json.length > 120 ? `${json.slice(0, 117)}...` : json;
+}
+
+/**
+ * Whether a validator implements the Standard Schema spec
+ */
+function isStandardSchema(validator: unknown): validator is StandardSchemaV1 {
+  return (
+    (typeof validator === "object" || typeof validator === "function") &&
+    validator !== null &&
+    "~standard" in validator
+  );
+}
+
+/**
+ * Converts validation issues into a validation error response
+ * Issues with a path are grouped by their dotted path, root-level issues go to formErrors
+ */
+function issuesToResponse(
+  issues: ReadonlyArray<StandardSchemaIssue>
+): ServerFnErrorResponse<any> {
+  const fieldErrors: Record<string, string[]> = {};
+  const formErrors: string[] = [];
+
+  for (const issue of issues) {
+    if (!issue.path || issue.path.length === 0) {
+      formErrors.push(issue.message);
+      continue;
+    }
+
+    const path = issue.path
+      .map((segment) =>
+        String(typeof segment === "object" ? segment.key : segment)
+      )
+      .join(".");
+    (fieldErrors[path] ??= []).push(issue.message);
+  }
+
+  return {
+    ok: false,
+    code: "VALIDATION_ERROR",
+    errors: issues.map((issue) => issue.message),
+    fieldErrors,
+    formErrors,
+  };
+}
+
+// ===============================
+// SERVER FUNCTION IMPLEMENTATION
+// ===============================
+
+/** Key under which built server functions keep their definition */
+const SERVER_FN_DEFINITION = Symbol.for("createServerFn.definition");
+
+/**
+ * What a built server function was made of, attached to it under SERVER_FN_DEFINITION
+ */
+type ServerFnDefinition = {
+  state: BuilderState;
+  /** Name used by instrumentation and the registry */
+  name: string;
+  /** The function passed to `.handler()` or `.stream()` */
+  handler: (args: any) => Promise<unknown> | AsyncGenerator<unknown, unknown, undefined>;
+  /** Whether it was built with `.stream()` */
+  streaming: boolean;
+  /** Runs the server function with adapter-specific options */
+  run: (
+    args: ({ input?: unknown } & CallOptions) | undefined,
+    options: ExecutionOptions
+  ) => Promise<ServerFnResponse<any>>;
+};
+
+/**
+ * Reads the definition of a function returned by `.handler()`
+ */
+function getServerFnDefinition(fn: unknown): ServerFnDefinition | undefined {
+  return (fn as { [SERVER_FN_DEFINITION]?: ServerFnDefinition } | undefined)?.[
+    SERVER_FN_DEFINITION
+  ];
+}
+
+/**
+ * Everything a builder has collected so far
+ * Builders are immutable: each step creates a new builder with an updated copy
+ */
+type BuilderState = {
+  /** Middleware and validation steps to execute in sequence */
+  steps: ChainStep[];
+  /** Zod schema the handler result is validated and stripped against */
+  outputSchema?: z.ZodType;
+  /** Declared error codes mapped to the schema of their details */
+  errors?: ErrorMap;
+  /** Settings from createServerFn.configure() */
+  config?: ServerFnConfig;
+  /** Milliseconds a call may take before it returns a TIMEOUT response */
+  timeout?: number;
+  /** Descriptive information from meta() */
+  meta?: ServerFnMeta;
+};
+
+/**
+ * Internal implementation of the ServerFnBuilder interface
+ * Handles the actual execution logic for middleware, validation, and handlers
+ */
+class ServerFnBuilderImpl<
+  TContext = any,
+  TInput = unknown,
+  TValidated extends boolean = false,
+  TCallInput = unknown,
+  TOutputSchema extends z.ZodType | undefined = undefined,
+  TErrors extends ErrorMap | undefined = undefined
+> implements
+    ServerFnBuilder<
+      TContext,
+      TInput,
+      TValidated,
+      TCallInput,
+      TOutputSchema,
+      TErrors
+    >
+{
+  /** Collected steps and settings */
+  private state: BuilderState;
+
+  constructor(state: BuilderState = { steps: [] }) {
+    this.state = state;
+  }
+
+  /** Whether a validation step has been added */
+  private get validated(): boolean {
+    return this.state.steps.some((step) => step.kind === "validate");
+  }
+
+  /** Implementation of use() - adds middleware to the chain */
+  use<TResult extends MiddlewareContext | void>(
+    middleware: TValidated extends true
+      ? ValidatedMiddlewareFn<TContext, TInput, TResult>
+      : MiddlewareFn<TContext, TResult>
+  ): ServerFnBuilder<
+    MergeContext<TContext, TResult>,
+    TInput,
+    TValidated,
+    TCallInput,
+    TOutputSchema,
+    TErrors
+  > {
+    // Create new builder with middleware added to the chain
+    // Middleware after validate() receive { context, input } instead of the context
+    const step: ChainStep = this.validated
+      ? { kind: "use", fn: middleware as ValidatedMiddlewareFn, afterValidation: true }
+      : { kind: "use", fn: middleware as MiddlewareFn, afterValidation: false };
+
+    return new ServerFnBuilderImpl({
+      ...this.state,
+      steps: [...this.state.steps, step],
+    });
+  }
+
+  /** Implementation of around() - adds an onion-style middleware to the chain */
+  around<TExtraContext extends MiddlewareContext = EmptyContext>(
+    middleware: AroundMiddlewareFn<
+      TContext,
+      TValidated extends true ? TInput : unknown,
+      TExtraContext
+    >
+  ): ServerFnBuilder<
+    MergeContext<TContext, TExtraContext>,
+    TInput,
+    TValidated,
+    TCallInput,
+    TOutputSchema,
+    TErrors
+  > {
+    return new ServerFnBuilderImpl({
+      ...this.state,
+      steps: [...this.state.steps, { kind: "around", fn: middleware }],
+    });
+  }
+
+  /** Implementation of authorize() - adds a policy to the chain */
+  authorize(
+    policy: Policy<TContext, TValidated extends true ? TInput : unknown>
+  ): ServerFnBuilder<
+    TContext,
+    TInput,
+    TValidated,
+    TCallInput,
+    TOutputSchema,
+    TErrors
+  > {
+    return new ServerFnBuilderImpl({
+      ...this.state,
+      steps: [...this.state.steps, { kind: "authorize", fn: policy }],
+    });
+  }
+
+  /** Implementation of validate() - adds validation to the chain */
+  validate<TValidationResult>(
+    validator:
+      | StandardSchemaV1<unknown, TValidationResult>
+      | ((data: unknown) => Promise<TValidationResult>),
+    options?: ValidateOptions
+  ): ServerFnBuilder<
+    TContext,
+    MergeInput<TValidated, TInput, TValidationResult>,
+    true,
+    any,
+    TOutputSchema,
+    TErrors
+  > {
+    // Create new builder with validation added at this position in the chain
+    // (later validations are merged with the earlier ones when the function runs)
+    return new ServerFnBuilderImpl({
+      ...this.state,
+      steps: [
+        ...this.state.steps,
+        { kind: "validate", validator, formData: options?.formData ?? false },
+      ],
+    }) as any;
+  }
+
+  /** Implementation of output() - sets the schema the handler result is checked against */
+  output<TSchema extends z.ZodType>(
+    schema: TSchema
+  ): TOutputSchema extends z.ZodType
+    ? never
+    : ServerFnBuilder<
+        TContext,
+        TInput,
+        TValidated,
+        TCallInput,
+        TSchema,
+        TErrors
+      > {
+    if (this.state.outputSchema) {
+      throw new Error("output() can only be called once");
+    }
+
+    return new ServerFnBuilderImpl({
+      ...this.state,
+      outputSchema: schema,
+    }) as any;
+  }
+
+  /** Implementation of errors() - declares error codes and their details schemas */
+  errors<TNewErrors extends ErrorMap>(
+    errors: TNewErrors
+  ): ServerFnBuilder<
+    TContext,
+    TInput,
+    TValidated,
+    TCallInput,
+    TOutputSchema,
+    MergeErrors<TErrors, TNewErrors>
+  > {
+    return new ServerFnBuilderImpl({
+      ...this.state,
+      errors: { ...this.state.errors, ...errors },
+    }) as any;
+  }
+
+  /** Implementation of timeout() - sets the deadline for each call */
+  timeout(
+    ms: number
+  ): ServerFnBuilder<
+    TContext,
+    TInput,
+    TValidated,
+    TCallInput,
+    TOutputSchema,
+    TErrors
+  > {
+    if (!Number.isFinite(ms) || ms <= 0) {
+      throw new Error("timeout() expects a positive number of milliseconds");
+    }
+
+    return new ServerFnBuilderImpl({ ...this.state, timeout: ms });
+  }
+
+  /** Implementation of meta() - merges descriptive information about the function */
+  meta(
+    meta: ServerFnMeta
+  ): ServerFnBuilder<
+    TContext,
+    TInput,
+    TValidated,
+    TCallInput,
+    TOutputSchema,
+    TErrors
+  > {
+    return new ServerFnBuilderImpl({
+      ...this.state,
+      meta: { ...this.state.meta, ...meta },
+    });
+  }
+
+  /**
+   * Implementation of handler() - creates the final executable server function
+   * and records it in the registry
+   */
+  handler<TOutput = any>(
+    fn: TValidated extends true
+      ? (args: {
+          input: TInput;
+          context: TContext;
+          signal: AbortSignal;
+          defer: DeferFn;
+        }) => Promise<HandlerResult<TOutputSchema, TOutput>>
+      : (args: {
+          context: TContext;
+          signal: AbortSignal;
+          defer: DeferFn;
+        }) => Promise<HandlerResult<TOutputSchema, TOutput>>
+  ): TValidated extends true
+    ? ValidatedServerFn<
+        TCallInput,
+        ServerFnResponse<ResponseData<TOutputSchema, TOutput>, TInput, TErrors>
+      >
+    : (args?: CallOptions) => Promise<
+        ServerFnResponse<ResponseData<TOutputSchema, TOutput>, unknown, TErrors>
+      > {
+    return this.build(fn, false);
+  }
+
+  /** Implementation of stream() - creates a streaming server function */
+  stream(fn: ServerFnDefinition["handler"]): any {
+    return this.build(fn, true);
+  }
+
+  /**
+   * Creates the final executable server function and records it in the registry
+   */
+  private build(fn: ServerFnDefinition["handler"], streaming: boolean): any {
+    const definition = this.createDefinition(fn, streaming);
+
+    const serverFn = (args?: { input?: unknown } & CallOptions) =>
+      streaming ? startStream(definition, args, {}) : definition.run(args, {});
+    Object.defineProperty(serverFn, "name", { value: definition.name });
+
+    // Keep the definition on the function so adapters (e.g. toFormAction) can inspect and run it
+    const builtFn = Object.assign(serverFn, {
+      [SERVER_FN_DEFINITION]: definition,
+    });
+
+    registerServerFn(definition.name, this.state, builtFn, streaming, definitionSite());
+    return builtFn;
+  }
+
+  /**
+   * Creates the definition of a server function from the builder state and its handler
+   * This is where all the magic happens: middleware execution, validation, and error handling.
+   * Also used by the testing utilities to run a modified chain without registering it.
+   */
+  createDefinition(
+    fn: ServerFnDefinition["handler"],
+    streaming = false
+  ): ServerFnDefinition {
+    const {
+      steps,
+      outputSchema,
+      errors: declaredErrors,
+      config,
+      timeout,
+    } = this.state;
+    const validated = this.validated;
+    const firstValidation = steps.findIndex((step) => step.kind === "validate");
+
+    const name = this.state.meta?.name || fn.name || "anonymous";
+
+    /**
+     * Runs the chain from the step at `index`, in the order the steps were added,
+     * then the handler. Each plain middleware's result is merged into the context,
+     * each around middleware wraps everything that comes after it, each policy may deny
+     * the call, and the first validation step replaces the raw input with the validated one.
+     * Later validation steps also validate the raw input, merging their result into it.
+     * Every step goes through `execution.runStep`, which times and traces it.
+     */
+    const runChain = async (
+      index: number,
+      context: any,
+      input: unknown,
+      rawInput: unknown,
+      execution: ChainExecution
+    ): Promise<ServerFnResponse<any>> => {
+      const step = steps[index];
+      const { signal, request, defer, runStep } = execution;
+
+      // Middleware before the first validation don't depend on the input, so the ones that
+      // already ran for the caller of invokeServerFn() are skipped. Later ones (e.g. loading
+      // the resource a policy checks) always run again with the invoked function's input.
+      const shareable = firstValidation === -1 || index < firstValidation;
+      if (
+        (step?.kind === "use" || step?.kind === "around") &&
+        shareable &&
+        execution.skip?.has(step.fn)
+      ) {
+        return runChain(index + 1, context, input, rawInput, execution);
+      }
+
+      // STEP 1: Execute middleware and validation sequentially
+      if (step?.kind === "use") {
+        const result = await runStep(step, index, () =>
+          step.afterValidation
+            ? step.fn({ context, input, signal, request, defer })
+            : step.fn(context, { signal, request, defer })
+        );
+        return runChain(
+          index + 1,
+          recordAppliedMiddleware(
+            mergeContext(context, result),
+            context,
+            shareable ? step.fn : undefined
+          ),
+          input,
+          rawInput,
+          execution
+        );
+      }
+
+      if (step?.kind === "around") {
+        return runStep(step, index, () =>
+          step.fn({
+            context,
+            input,
+            signal,
+            request,
+            defer,
+            next: (options) =>
+              catchSoftErrors(
+                () =>
+                  runChain(
+                    index + 1,
+                    recordAppliedMiddleware(
+                      mergeContext(context, options?.context),
+                      context,
+                      shareable ? step.fn : undefined
+                    ),
+                    input,
+                    rawInput,
+                    execution
+                  ),
+                declaredErrors
+              ),
+          })
+        );
+      }
+
+      if (step?.kind === "authorize") {
+        // A denial throws a ForbiddenError, which becomes a FORBIDDEN response
+        await runStep(step, index, () => enforcePolicy(step.fn, { context, input }));
+        return runChain(index + 1, context, input, rawInput, execution);
+      }
+
+      if (step?.kind === "validate") {
+        // STEP 2: Validate input - always, so defaults apply and missing input is rejected
+        // FormData and URLSearchParams are converted to an object for schemas
+        const stepInput =
+          isStandardSchema(step.validator) &&
+          (step.formData || execution.coerceFormData) &&
+          (rawInput instanceof FormData || rawInput instanceof URLSearchParams)
+            ? formDataToInput(rawInput, step.validator)
+            : rawInput;
+
+        const validation = await runStep(step, index, () =>
+          runValidator(step.validator, stepInput)
+        );
+        if (!validation.ok) {
+          return validation;
+        }
+
+        // Every validator sees the raw input; later results are merged into the earlier ones
+        const validatedInput =
+          index === firstValidation
+            ? validation.data
+            : mergeInput(input, validation.data);
+        return runChain(index + 1, context, validatedInput, rawInput, execution);
+      }
+
+      // STEP 3: Execute the handler function
+      // If we have validation, pass both validated input and accumulated context
+      // If no validation, just pass accumulated context
+      const handlerArgs = validated
+        ? { input, context, signal, defer }
+        : { context, signal, defer };
+      const { deferred } = execution;
+      const deferredBefore = deferred.tasks.length;
+      let result: unknown;
+      try {
+        // Streaming handlers send their chunks to the stream of the call
+        result = await runStep({ kind: "handler", fn }, index, () =>
+          execution.emit
+            ? runStreamHandler(fn, handlerArgs, execution.emit)
+            : (fn as any)(handlerArgs)
+        );
+
+        // STEP 4: Validate and strip the result against the output schema (hard error on mismatch)
+        if (outputSchema) {
+          const parsed = outputSchema.safeParse(result);
+          if (!parsed.success) {
+            throw new OutputValidationError(parsed.error, result);
+          }
+          result = parsed.data;
+        }
+      } catch (error) {
+        // What the failed handler deferred never runs, even if an around middleware recovers
+        deferred.tasks.length = deferredBefore;
+        throw error;
+      }
+
+      // STEP 5: Return successful response with standardized format
+      // Deferred tasks may run from now on, if the whole call succeeds
+      deferred.handlerSucceeded = true;
+      return {
+        ok: true,
+        data: result,
+      };
+    };
+
+    // STEP 6: Handle errors - soft errors become responses,
+    // hard errors follow the configured policy (crash by default)
+    const run = async (
+      args: ({ input?: unknown } & CallOptions) | undefined,
+      execution: ExecutionOptions
+    ) => {
+      const instrumentations = getInstrumentations();
+      const call: CallInfo = { name, requestId: crypto.randomUUID() };
+      const completedSteps: StepInfo[] = [];
+      const startedAt = performance.now();
+      const complete = (): CallCompleteInfo => ({
+        ...call,
+        duration: performance.now() - startedAt,
+        steps: completedSteps,
+      });
+
+      // Times each step, wraps it in a span and reports it to onStepComplete
+      const runStep: ChainExecution["runStep"] = async (step, index, fn) => {
+        const stepStartedAt = performance.now();
+        const record = (ok: boolean, code?: string) => {
+          const info: StepInfo = {
+            kind: step.kind,
+            name: stepName(step),
+            index,
+            duration: performance.now() - stepStartedAt,
+            ok,
+            code,
+          };
+          completedSteps.push(info);
+          notify(instrumentations, "onStepComplete", { ...call, step: info });
+        };
+
+        try {
+          const result = await traceSpan(
+            instrumentations,
+            `serverFn ${name} ${step.kind}`,
+            {
+              "serverFn.name": name,
+              "serverFn.requestId": call.requestId,
+              "serverFn.step": stepName(step),
+              "serverFn.step.index": index,
+            },
+            fn
+          );
+          // Validation and around middleware resolve to responses, which may be errors
+          const code =
+            step.kind === "validate" || step.kind === "around"
+              ? errorCodeOf(result)
+              : undefined;
+          record(code === undefined, code);
+          return result;
+        } catch (error) {
+          record(false, error instanceof ServerFnError ? error.code : undefined);
+          throw error;
+        }
+      };
+
+      notify(instrumentations, "onStart", call);
+
+      const { signal, cleanup } = createCallSignal(
+        [args?.signal, execution.signal],
+        timeout
+      );
+
+      const deferred: DeferredTasks = {
+        tasks: [],
+        handlerSucceeded: false,
+        settled: false,
+      };
+      // Tasks deferred after the call has settled (e.g. by a handler that ignored a timeout)
+      // are dropped along with the others
+      const defer: DeferFn = (task) => {
+        if (!deferred.settled) deferred.tasks.push(task);
+      };
+
+      let response: ServerFnResponse<any>;
+      try {
+        // The chain is raced against the signal, so a timeout returns right away
+        // (as a TimeoutError soft error) even when the handler ignores the signal
+        response = await traceSpan(
+          instrumentations,
+          `serverFn ${name}`,
+          { "serverFn.name": name, "serverFn.requestId": call.requestId },
+          () =>
+            catchSoftErrors(() => {
+              signal.throwIfAborted();
+              return Promise.race([
+                runChain(0, execution.context ?? {}, args?.input, args?.input, {
+                  ...execution,
+                  signal,
+                  defer,
+                  deferred,
+                  runStep,
+                }),
+                rejectOnAbort(signal),
+              ]);
+            }, declaredErrors)
+        );
+      } catch (error) {
+        // Aborted by the caller: reject with its reason, like fetch() does
+        if (signal.aborted && error === signal.reason) {
+          throw error;
+        }
+        // Next.js control-flow errors (redirect(), notFound(), ...) aren't unexpected
+        unstable_rethrow(error);
+        // Nested calls leave unexpected errors to the outer call, which applies its policy once
+        if (execution.rethrowUnhandled) {
+          throw error;
+        }
+        notify(instrumentations, "onUnhandled", { ...complete(), error });
+        return handleUnhandledError(error, config, call.requestId);
+      } finally {
+        cleanup();
+        deferred.settled = true;
+      }
+
+      // Deferred tasks need the handler to have succeeded, not just a successful response
+      // (an around middleware may turn an error into one)
+      const tasks = deferred.handlerSucceeded ? deferred.tasks : [];
+
+      if (response.ok) {
+        notify(instrumentations, "onSuccess", complete());
+        // Nested calls leave their tasks to the outer call, so they wait for its success too
+        if (execution.defer) {
+          tasks.forEach(execution.defer);
+        } else {
+          scheduleDeferred(tasks, call, config);
+        }
+      } else {
+        notify(instrumentations, "onError", {
+          ...complete(),
+          code: response.code,
+          step: completedSteps.find((step) => !step.ok),
+        });
+      }
+
+      return response;
+    };
+
+    return { state: this.state, name, handler: fn, streaming, run };
+  }
+}
+
+// ===============================
+// FORM DATA COERCION
+// ===============================
+
+/** Keys that could pollute prototypes when building nested objects */
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * Converts FormData or URLSearchParams to the input a schema expects
+ * - `a.b`, `a[b]` become nested objects, `a[0]` and `a[]` become arrays
+ * - repeated keys become arrays, File entries are kept as they are
+ * - for Zod schemas, strings are coerced to numbers, booleans and dates where expected;
+ *   only FormData (a submitted form) turns missing booleans into `false`, query strings don't
+ */
+function formDataToInput(
+  data: FormData | URLSearchParams,
+  schema: StandardSchemaV1
+): unknown {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of data.entries()) {
+    setPath(result, parseFormKey(key), value);
+  }
+
+  return schema instanceof z.ZodType
+    ? coerceToSchema(result, schema, data instanceof FormData)
+    : result;
+}
+
+/**
+ * Splits a form key into path segments: "items[0].name" -> ["items", "0", "name"], "tags[]" -> ["tags", ""]
+ */
+function parseFormKey(key: string): string[] {
+  return key
+    .split(/\.|\[/)
+    .map((segment) => (segment.endsWith("]") ? segment.slice(0, -1) : segment));
+}
+
+/**
+ * Assigns a value at a path, creating objects and arrays along the way
+ * An empty segment appends to an array, assigning the same leaf twice collects an array
+ */
+function setPath(target: any, path: string[], value: unknown): void {
+  if (path.some((segment) => UNSAFE_KEYS.has(segment))) {
+    return;
+  }
+
+  let current = target;
+  for (let i = 0; i < path.length - 1; i++) {
+    const segment = path[i];
+    const nextIsIndex = path[i + 1] === "" || /^\d+$/.test(path[i + 1]);
+
+    if (segment === "") {
+      const container = nextIsIndex ? [] : {};
+      current.push(container);
+      current = container;
+      continue;
+    }
+
+    if (current[segment] === undefined || typeof current[segment] !== "object") {
+      current[segment] = nextIsIndex ? [] : {};
+    }
+    current = current[segment];
+  }
+
+  const last = path[path.length - 1];
+  if (last === "") {
+    current.push(value);
+  } else if (current[last] === undefined) {
+    current[last] = value;
+  } else if (Array.isArray(current[last])) {
+    current[last].push(value);
+  } else {
+    current[last] = [current[last], value];
+  }
+}
+
+/**
+ * Unwraps optional, nullable, default, pipe, ... to the schema that describes the value
+ */
+function unwrapSchema(schema: z.ZodType): z.ZodType {
+  const def = (schema as any)._zod.def;
+
+  switch (def.type) {
+    case "optional":
+    case "nullable":
+    case "default":
+    case "prefault":
+    case "nonoptional":
+    case "catch":
+    case "readonly":
+      return unwrapSchema(def.innerType);
+    case "pipe":
+      return unwrapSchema(def.in);
+    case "lazy":
+      return unwrapSchema(def.getter());
+    default:
+      return schema;
+  }
+}
+
+/**
+ * Whether a schema fills in missing values itself (`.default()` or `.prefault()`)
+ */
+function hasDefault(schema: z.ZodType): boolean {
+  const def = (schema as any)._zod.def;
+
+  switch (def.type) {
+    case "default":
+    case "prefault":
+      return true;
+    case "optional":
+    case "nullable":
+    case "nonoptional":
+    case "catch":
+    case "readonly":
+      return hasDefault(def.innerType);
+    case "pipe":
+      return hasDefault(def.in);
+    case "lazy":
+      return hasDefault(def.getter());
+    default:
+      return false;
+  }
+}
+
+/**
+ * Coerces form values (strings, arrays of strings, files) to the types the schema expects
+ * Values the schema doesn't describe are left untouched for the schema to report.
+ * With `missingAsFalse`, booleans without a value or a default become `false`.
+ */
+function coerceToSchema(
+  value: unknown,
+  schema: z.ZodType,
+  missingAsFalse: boolean
+): unknown {
+  const inner = unwrapSchema(schema);
+  const def = (inner as any)._zod.def;
+
+  switch (def.type) {
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return value;
+      }
+
+      const result: Record<string, unknown> = { ...value };
+      for (const [key, fieldSchema] of Object.entries<z.ZodType>(def.shape)) {
+        const coerced = coerceToSchema(result[key], fieldSchema, missingAsFalse);
+        if (coerced === undefined) {
+          delete result[key];
+        } else {
+          result[key] = coerced;
+        }
+      }
+      return result;
+    }
+    case "array": {
+      if (value === undefined) {
+        return value;
+      }
+      // A single entry for an array field still means a list
+      const items = Array.isArray(value) ? value : [value];
+      return items.map((item) =>
+        coerceToSchema(item, def.element, missingAsFalse)
+      );
+    }
+    case "number": {
+      if (value === "") {
+        return undefined;
+      }
+      return typeof value === "string" ? Number(value) : value;
+    }
+    case "bigint": {
+      if (value === "") {
+        return undefined;
+      }
+      try {
+        return typeof value === "string" ? BigInt(value) : value;
+      } catch {
+        return value;
+      }
+    }
+    case "boolean": {
+      // Unchecked checkboxes are not submitted at all; the schema's default wins if it has one
+      if (value === undefined) {
+        return missingAsFalse && !hasDefault(schema) ? false : value;
+      }
+      if (typeof value === "string") {
+        return !["", "false", "off", "0"].includes(value.toLowerCase());
+      }
+      return value;
+    }
+    case "date": {
+      if (value === "") {
+        return undefined;
+      }
+      return typeof value === "string" ? new Date(value) : value;
+    }
+    case "literal": {
+      // Match string submissions against non-string literals (e.g. z.literal(1))
+      const match = (def.values as unknown[]).find(
+        (literal) => String(literal) === value
+      );
+      return match !== undefined ? match : value;
+    }
+    default:
+      return value;
+  }
+}
+
+// ===============================
+// FORM ACTIONS
+// ===============================
+
+/**
+ * Values submitted with a form, kept so inputs can be re-filled
+ * Repeated keys become arrays, files are left out
+ */
+export type SubmittedValues = Record<string, string | string[]>;
+
+/**
+ * State of a form action: the server function response plus the submitted values
+ */
+export type FormActionState<TResponse> = TResponse & {
+  values: SubmittedValues;
+};
+
+/**
+ * Function compatible with React's `useActionState` and `<form action>`
+ */
+export type FormAction<TResponse> = (
+  prevState: FormActionState<TResponse> | null,
+  formData: FormData
+) => Promise<FormActionState<TResponse>>;
+
+/**
+ * Converts a server function into a form action with the `(prevState, formData)` signature
+ * expected by React 19's `useActionState` and `<form action>`, so forms work without JavaScript.
+ *
+ * For Zod-validated functions the FormData is converted to an object before validation,
+ * the same way `.validate(schema, { formData: true })` does. Custom validators receive the FormData as-is.
+ * The returned state is the server function response plus the submitted `values`.
+ *
+ * @param fn - Server function returned by `.handler()`
+ * @returns Form action to export from a "use server" file
+ *
+ * @example
+ * ```ts
+ * // actions.ts
+ * "use server";
+ * export const createUserAction = toFormAction(createUser);
+ *
+ * // form.tsx
+ * "use client";
+ * const [state, action, isPending] = useActionState(createUserAction, null);
+ *
+ * <form action={action}>
+ *   <input name="email" defaultValue={state?.values.email} />
+ *   {state && !state.ok && <p>{state.fieldErrors?.email?.[0]}</p>}
+ * </form>
+ * ```
+ */
+export function toFormAction<
+  TFn extends (...args: any[]) => Promise<ServerFnResponse<any, any, any>>
+>(fn: TFn): FormAction<Awaited<ReturnType<TFn>>> {
+  const definition = getServerFnDefinition(fn);
+
+  return async (_prevState, formData) => {
+    const response = definition
+      ? await definition.run({ input: formData }, { coerceFormData: true })
+      : await fn({ input: formData });
+
+    return { ...response, values: getSubmittedValues(formData) } as any;
+  };
+}
+
+/**
+ * Collects the string values of a form submission so inputs can be re-filled
+ */
+function getSubmittedValues(formData: FormData): SubmittedValues {
+  const values: SubmittedValues = {};
+
+  for (const [key, value] of formData.entries()) {
+    if (typeof value !== "string") {
+      continue;
+    }
+
+    const existing = values[key];
+    if (existing === undefined) {
+      values[key] = value;
+    } else {
+      values[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+    }
+  }
+
+  return values;
+}
+
+// ===============================
+// DEFERRED TASKS
+// ===============================
+
+/** Deferred tasks that are still running, awaited by flushDeferred() */
+const PENDING_DEFERRED = new Set<Promise<void>>();
+
+/**
+ * Runs the tasks deferred by a successful call, one after the other
+ * A failing task is reported to `onDeferredError` (or logged) and the next one still runs.
+ */
+async function runDeferred(
+  tasks: (() => unknown)[],
+  call: CallInfo,
+  config: ServerFnConfig = {}
+): Promise<void> {
+  for (const task of tasks) {
+    try {
+      await task();
+    } catch (error) {
+      if (!config.onDeferredError) {
+        console.error(`[createServerFn] deferred task of ${call.name} failed:`, error);
+        continue;
+      }
+      try {
+        await config.onDeferredError(error, call);
+      } catch (hookError) {
+        console.error("[createServerFn] onDeferredError failed:", hookError);
+      }
+    }
+  }
+}
+
+/**
+ * Starts the deferred tasks of a successful call without delaying its response
+ * During a request they are handed to Next.js `after()`, which runs them once the response
+ * is sent and keeps the function alive until they finish; outside of one (tests, scripts)
+ * they start right away.
+ */
+function scheduleDeferred(
+  tasks: (() => unknown)[],
+  call: CallInfo,
+  config: ServerFnConfig | undefined
+): void {
+  if (tasks.length === 0) return;
+
+  const start = () => {
+    const pending = runDeferred(tasks, call, config);
+    PENDING_DEFERRED.add(pending);
+    pending.finally(() => PENDING_DEFERRED.delete(pending));
+    return pending;
+  };
+
+  try {
+    after(start);
+  } catch {
+    // after() throws outside of a request scope
+    start();
+  }
+}
+
+// ===============================
+// STREAMING
+// ===============================
+
+/**
+ * Whether a handler returned an async generator (an `async function*` handler)
+ */
+function isAsyncGenerator(
+  value: unknown
+): value is AsyncGenerator<unknown, unknown, undefined> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as any)[Symbol.asyncIterator] === "function" &&
+    typeof (value as any).next === "function"
+  );
+}
+
+/**
+ * Runs a streaming handler, passing its chunks to `emit`, and resolves to its return value
+ * A generator isn't pulled any further once the call is aborted (timeout or caller).
+ */
+async function runStreamHandler(
+  fn: ServerFnDefinition["handler"],
+  args: { signal: AbortSignal } & MiddlewareContext,
+  emit: (chunk: unknown) => void
+): Promise<unknown> {
+  const output = fn({ ...args, emit });
+  if (!isAsyncGenerator(output)) {
+    return output;
+  }
+
+  try {
+    for (;;) {
+      const next = await output.next();
+      if (next.done) {
+        return next.value;
+      }
+      args.signal.throwIfAborted();
+      emit(next.value);
+    }
+  } finally {
+    // Runs the generator's own cleanup (finally blocks) when it stops early
+    await output.return(undefined);
+  }
+}
+
+/**
+ * Buffers the chunks of one call until they are read, so the handler runs at its own pace
+ * and the final response arrives even when nobody reads the stream
+ */
+function createChunkQueue() {
+  let controller!: ReadableStreamDefaultController<unknown>;
+  let closed = false;
+  const readable = new ReadableStream<unknown>(
+    {
+      start: (streamController) => {
+        controller = streamController;
+      },
+      cancel: () => {
+        closed = true;
+      },
+    },
+    { highWaterMark: Infinity }
+  );
+
+  return {
+    readable,
+    push: (chunk: unknown) => {
+      if (!closed) controller.enqueue(chunk);
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      controller.close();
+    },
+    fail: (error: unknown) => {
+      if (closed) return;
+      closed = true;
+      controller.error(error);
+    },
+  };
+}
+
+/**
+ * Reads a stream with `for await` (ReadableStream isn't async iterable in every browser)
+ */
+async function* readChunks<T>(
+  readable: ReadableStream<T>
+): AsyncGenerator<T, void, undefined> {
+  const reader = readable.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Calls a streaming server function
+ * Resolves once the first chunk is produced, to the stream and the promise of the final
+ * response, or to the error response when the call fails before that (validation, middleware,
+ * policies or the handler itself).
+ * The stream ends when the call does: with the final response, or with its hard error.
+ */
+async function startStream(
+  definition: ServerFnDefinition,
+  args: ({ input?: unknown } & CallOptions) | undefined,
+  execution: ExecutionOptions
+): Promise<ServerFnStreamResponse<unknown, ServerFnResponse<any>>> {
+  const queue = createChunkQueue();
+  let markStarted!: () => void;
+  const started = new Promise<void>((resolve) => {
+    markStarted = resolve;
+  });
+
+  const result = definition.run(args, {
+    ...execution,
+    emit: (chunk) => {
+      markStarted();
+      queue.push(chunk);
+    },
+  });
+  result.then(queue.close, queue.fail);
+
+  const streaming = await Promise.race([
+    started.then(() => true),
+    result.then(() => false),
+  ]);
+  if (!streaming) {
+    const response = await result;
+    if (!response.ok) {
+      return response;
+    }
+  }
+
+  return { ok: true, stream: readChunks(queue.readable), result };
+}
+
+/**
+ * Encodes a stream as newline-delimited JSON for route handlers:
+ * a `{"chunk":...}` line per chunk, then a `{"result":...}` line with the final response
+ */
+function toNdjsonStream(
+  response: ServerFnStream<unknown, ServerFnResponse<any>>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const lines = (async function* () {
+    for await (const chunk of response.stream) {
+      yield { chunk };
+    }
+    yield { result: await response.result };
+  })();
+
+  return new ReadableStream({
+    pull: async (controller) => {
+      const { done, value } = await lines.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(`${JSON.stringify(value)}\n`));
+      }
+    },
+    cancel: async () => {
+      await lines.return(undefined);
+    },
+  });
+}
+
+// ===============================
+// ROUTE HANDLERS
+// ===============================
+
+/**
+ * Handler for an HTTP method, exported from a `route.ts` file in the app directory
+ */
+export type RouteHandler = (request: Request) => Promise<Response>;
+
+/**
+ * GET and POST handlers; export only the methods the function should answer
+ */
+export type RouteHandlers = {
+  GET: RouteHandler;
+  POST: RouteHandler;
+};
+
+/**
+ * Options for toRouteHandler() and toRouteHandlers()
+ */
+export type RouteHandlerOptions = {
+  /**
+   * HTTP statuses for error codes, merged with the defaults
+   * (VALIDATION_ERROR 422, UNAUTHORIZED 401, FORBIDDEN 403, NOT_FOUND 404, TIMEOUT 504,
+   * SERVER_ERROR and INTERNAL_ERROR 500, any other code 400)
+   */
+  statuses?: Record<string, number>;
+};
+
+/** HTTP status of each built-in error code; other codes are client errors (400) */
+const DEFAULT_ERROR_STATUSES: Record<string, number> = {
+  VALIDATION_ERROR: 422,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  TIMEOUT: 504,
+  SERVER_ERROR: 500,
+  INTERNAL_ERROR: 500,
+} satisfies Record<BuiltInErrorCode, number>;
+
+/**
+ * Exposes a server function over HTTP for clients that can't call server actions
+ * (mobile apps, cron jobs, webhooks). The response body is the server function response
+ * as JSON, with a status derived from its error code.
+ *
+ * Streaming functions (`.stream()`) answer with newline-delimited JSON
+ * (`application/x-ndjson`) from their first chunk: a `{"chunk":...}` line per chunk, then
+ * a `{"result":...}` line with the final response. Earlier errors are answered as JSON.
+ *
+ * The request is parsed into `input`:
+ * - GET: query params (none means no input), coerced like FormData for Zod schemas
+ * - POST: a JSON body, or a multipart / url-encoded form (coerced like FormData)
+ * A body that can't be parsed is a VALIDATION_ERROR response, like invalid input.
+ *
+ * Middleware receive the `Request` (`request` on their options or args) with its body
+ * unread, e.g. to verify a webhook signature, and the call is aborted when the request is.
+ * Export only the methods the function should answer: a GET that changes data can be
+ * triggered by any link or image on another site.
+ *
+ * @param fn - Server function returned by `.handler()` or `.stream()`
+ * @param options - HTTP statuses for error codes
+ * @returns GET and POST handlers
+ *
+ * @example
+ * ```ts
+ * // app/api/posts/route.ts
+ * export const { GET } = toRouteHandler(getPosts); // GET /api/posts?limit=5
+ *
+ * // app/api/posts/create/route.ts
+ * export const { POST } = toRouteHandler(createPost); // POST /api/posts/create with JSON
+ * ```
+ */
+export function toRouteHandler(
+  fn: AnyBuiltServerFn,
+  options: RouteHandlerOptions = {}
+): RouteHandlers {
+  const definition = getServerFnDefinition(fn);
+
+  const handle: RouteHandler = async (request) => {
+    // Read from a copy so middleware can still read the body (e.g. to verify a signature)
+    const input = await readRequestInput(request.clone());
+    if (!input.ok) {
+      return Response.json(input, {
+        status: responseStatus(input, options.statuses),
+      });
+    }
+
+    const execution = { coerceFormData: true, signal: request.signal, request };
+
+    // Streaming functions answer with newline-delimited JSON from their first chunk
+    if (definition?.streaming) {
+      const started = await startStream(definition, { input: input.data }, execution);
+      if (!started.ok) {
+        return Response.json(started, {
+          status: responseStatus(started, options.statuses),
+        });
+      }
+      return new Response(toNdjsonStream(started), {
+        headers: { "content-type": "application/x-ndjson" },
+      });
+    }
+
+    const response = definition
+      ? await definition.run({ input: input.data }, execution)
+      : ((await fn({ input: input.data, signal: request.signal })) as ServerFnResponse<any>);
+
+    return Response.json(response, {
+      status: responseStatus(response, options.statuses),
+    });
+  };
+
+  return { GET: handle, POST: handle };
+}
+
+/**
+ * Exposes several server functions from one dynamic route, picked by the last path segment
+ * Unknown names respond with a 404 NOT_FOUND error response.
+ *
+ * @param fns - Server functions by the name used in the URL
+ * @param options - HTTP statuses for error codes
+ * @returns GET and POST handlers
+ *
+ * @example
+ * ```ts
+ * // app/api/rpc/[name]/route.ts
+ * export const { POST } = toRouteHandlers({ createPost, publishPost });
+ * // POST /api/rpc/createPost, POST /api/rpc/publishPost
+ * ```
+ */
+export function toRouteHandlers(
+  fns: Record<string, AnyBuiltServerFn>,
+  options: RouteHandlerOptions = {}
+): RouteHandlers {
+  const handlers = new Map(
+    Object.entries(fns).map(([name, fn]) => [name, toRouteHandler(fn, options)])
+  );
+
+  const dispatch =
+    (method: keyof RouteHandlers): RouteHandler =>
+    async (request) => {
+      const segments = new URL(request.url).pathname.split("/").filter(Boolean);
+      const segment = segments.at(-1) ?? "";
+      const name = decodePathSegment(segment);
+      // A segment that can't be decoded can't name a function either
+      const handlersForName = name === undefined ? undefined : handlers.get(name);
+
+      if (!handlersForName) {
+        const response: ServerFnErrorResponse = {
+          ok: false,
+          code: "NOT_FOUND",
+          errors: [`Unknown server function "${name ?? segment}"`],
+        };
+        return Response.json(response, { status: 404 });
+      }
+
+      return handlersForName[method](request);
+    };
+
+  return { GET: dispatch("GET"), POST: dispatch("POST") };
+}
+
+/**
+ * Decodes a URL path segment, or returns undefined when its percent-encoding is malformed
+ */
+function decodePathSegment(segment: string): string | undefined {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads the input of a route handler request
+ * Resolves to a VALIDATION_ERROR response when a JSON or form body can't be parsed
+ */
+async function readRequestInput(
+  request: Request
+): Promise<ServerFnResponse<unknown>> {
+  if (request.method === "GET" || request.method === "HEAD") {
+    const params = new URL(request.url).searchParams;
+    return { ok: true, data: params.size > 0 ? params : undefined };
+  }
+
+  const contentType = request.headers.get("content-type") ?? "";
+  if (
+    contentType.includes("multipart/form-data") ||
+    contentType.includes("application/x-www-form-urlencoded")
+  ) {
+    try {
+      return { ok: true, data: await request.formData() };
+    } catch {
+      return {
+        ok: false,
+        code: "VALIDATION_ERROR",
+        errors: ["Request body is not a valid form"],
+      };
+    }
+  }
+
+  const body = await request.text();
+  if (body.trim() === "") {
+    return { ok: true, data: undefined };
+  }
+
+  try {
+    return { ok: true, data: JSON.parse(body) };
+  } catch {
+    return {
+      ok: false,
+      code: "VALIDATION_ERROR",
+      errors: ["Request body is not valid JSON"],
+    };
+  }
+}
+
+/**
+ * HTTP status for a server function response
+ */
+function responseStatus(
+  response: ServerFnResponse<unknown, any, any>,
+  statuses: Record<string, number> = {}
+): number {
+  if (response.ok) {
+    return 200;
+  }
+
+  return statuses[response.code] ?? DEFAULT_ERROR_STATUSES[response.code] ?? 400;
+}
+
+// ===============================
+// ROUTER
+// ===============================
+
+/**
+ * Server functions grouped by name, nested to any depth
+ */
+export type RouterRoutes = {
+  [name: string]: AnyBuiltServerFn | RouterRoutes;
+};
+
+/**
+ * Router returned by createRouter(): route handlers for a catch-all route, plus its routes
+ * (used by createClient() to type the client)
+ */
+export type ServerFnRouter<TRoutes extends RouterRoutes = RouterRoutes> =
+  RouteHandlers & {
+    routes: TRoutes;
+  };
+
+/**
+ * Groups server functions under namespaced paths, served by one catch-all route handler
+ * `{ posts: { create } }` answers at `<mount path>/posts/create`: the function is picked by the
+ * trailing path segments, so the router can be mounted anywhere. Requests are handled like
+ * toRouteHandler(); unknown paths respond with a 404 NOT_FOUND error response.
+ *
+ * Use createClient() with `typeof router` to call it with the same types from other apps.
+ *
+ * @param routes - Server functions, nested in namespaces
+ * @param options - HTTP statuses for error codes
+ * @returns GET and POST handlers, and the routes
+ *
+ * @example
+ * ```ts
+ * // app/api/rpc/router.ts
+ * export const router = createRouter({
+ *   posts: { create: createPost, list: getPosts },
+ * });
+ *
+ * // app/api/rpc/[...path]/route.ts
+ * export const { POST } = router; // POST /api/rpc/posts/create
+ * ```
+ */
+export function createRouter<TRoutes extends RouterRoutes>(
+  routes: TRoutes,
+  options: RouteHandlerOptions = {}
+): ServerFnRouter<TRoutes> {
+  const handlers = new Map<string, RouteHandlers>();
+  let depth = 0;
+
+  const addRoutes = (group: RouterRoutes, prefix: string[]) => {
+    for (const [name, route] of Object.entries(group)) {
+      if (name.includes("/")) {
+        throw new Error(`createRouter() route names can't contain "/" ("${name}")`);
+      }
+
+      const path = [...prefix, name];
+      if (typeof route === "function") {
+        handlers.set(path.join("/"), toRouteHandler(route, options));
+        depth = Math.max(depth, path.length);
+      } else {
+        addRoutes(route, path);
+      }
+    }
+  };
+  addRoutes(routes, []);
+
+  const dispatch =
+    (method: keyof RouteHandlers): RouteHandler =>
+    async (request) => {
+      const rawSegments = new URL(request.url).pathname.split("/").filter(Boolean);
+      const segments = rawSegments.map(decodePathSegment);
+
+      // The longest registered path the URL ends with
+      for (let length = Math.min(depth, segments.length); length > 0; length--) {
+        const suffix = segments.slice(-length);
+        // Segments that can't be decoded match no route
+        if (suffix.some((segment) => segment === undefined)) {
+          continue;
+        }
+        const handlersForPath = handlers.get(suffix.join("/"));
+        if (handlersForPath) {
+          return handlersForPath[method](request);
+        }
+      }
+
+      const path = segments
+        .map((segment, index) => segment ?? rawSegments[index])
+        .join("/");
+      const response: ServerFnErrorResponse = {
+        ok: false,
+        code: "NOT_FOUND",
+        errors: [`No server function at "${path}"`],
+      };
+      return Response.json(response, { status: 404 });
+    };
+
+  return { GET: dispatch("GET"), POST: dispatch("POST"), routes };
+}
+
+// ===============================
+// OPENAPI
+// ===============================
+
+/** A JSON Schema (draft 2020-12, as used by OpenAPI 3.1) */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Options for generateOpenApiDocument()
+ */
+export type OpenApiOptions = {
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string; description?: string }[];
+  /** Server functions by path and method, matching the route handlers that expose them */
+  paths: Record<
+    string,
+    Partial<
+      Record<
+        keyof RouteHandlers,
+        (...args: any[]) => Promise<ServerFnResponse<any, any, any>>
+      >
+    >
+  >;
+  /** HTTP statuses for error codes, as passed to toRouteHandler() */
+  statuses?: Record<string, number>;
+};
+
+/**
+ * An OpenAPI 3.1 document
+ */
+export type OpenApiDocument = {
+  openapi: "3.1.0";
+  info: OpenApiOptions["info"];
+  servers?: OpenApiOptions["servers"];
+  paths: Record<string, Record<string, JsonSchema>>;
+  components: { schemas: Record<string, JsonSchema> };
+};
+
+/**
+ * Generates an OpenAPI 3.1 document for server functions exposed with toRouteHandler()
+ *
+ * Each operation is described from the function's builder:
+ * - the request from its Zod input schemas (query parameters for GET, a JSON body for POST,
+ *   plus a multipart body when validated with `{ formData: true }`)
+ * - the success envelope `{ ok: true, data }`, with `data` from `.output()` when declared;
+ *   for streaming functions, the `application/x-ndjson` lines (`{"chunk"}`, then `{"result"}`)
+ * - the error envelope `{ ok: false, code, errors, ... }` for each possible code, grouped by
+ *   HTTP status: codes declared with `.errors()` (with their `details`), VALIDATION_ERROR when
+ *   validated or for POST (unparseable bodies), FORBIDDEN with `.authorize()`, TIMEOUT with
+ *   `.timeout()` and INTERNAL_ERROR when unexpected errors are masked
+ * - the operation ID, description, tags and deprecation from `.meta()`
+ *
+ * Validators other than Zod schemas are described as accepting any value.
+ *
+ * @param options - Document info and the functions by path and method
+ * @returns The OpenAPI document, ready to serve as JSON
+ *
+ * @example
+ * ```ts
+ * // app/api/openapi/route.ts
+ * export function GET() {
+ *   return Response.json(
+ *     generateOpenApiDocument({
+ *       info: { title: "Blog API", version: "1.0.0" },
+ *       paths: {
+ *         "/api/posts": { GET: getPosts },
+ *         "/api/posts/create": { POST: createPost },
+ *       },
+ *     })
+ *   );
+ * }
+ * ```
+ */
+export function generateOpenApiDocument(
+  options: OpenApiOptions
+): OpenApiDocument {
+  const paths: OpenApiDocument["paths"] = {};
+
+  for (const [path, methods] of Object.entries(options.paths)) {
+    paths[path] = {};
+
+    for (const [method, fn] of Object.entries(methods)) {
+      const definition = getServerFnDefinition(fn);
+      if (!definition) {
+        throw new Error(
+          `generateOpenApiDocument() expects functions returned by .handler() (${method} ${path})`
+        );
+      }
+
+      paths[path][method.toLowerCase()] = describeOperation(
+        fn.name,
+        definition.state,
+        method as keyof RouteHandlers,
+        options.statuses,
+        definition.streaming
+      );
+    }
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: options.info,
+    ...(options.servers && { servers: options.servers }),
+    paths,
+    components: {
+      schemas: {
+        ErrorResponse: {
+          type: "object",
+          properties: {
+            ok: { const: false },
+            code: { type: "string" },
+            errors: { type: "array", items: { type: "string" } },
+            fieldErrors: {
+              type: "object",
+              description: "Messages keyed by the dotted path of the field",
+              additionalProperties: { type: "array", items: { type: "string" } },
+            },
+            formErrors: { type: "array", items: { type: "string" } },
+            errorId: { type: "string" },
+          },
+          required: ["ok", "code", "errors"],
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Describes one server function as an OpenAPI operation
+ */
+function describeOperation(
+  name: string,
+  state: BuilderState,
+  method: keyof RouteHandlers,
+  statuses: Record<string, number> = {},
+  streaming = false
+): JsonSchema {
+  const { meta = {} } = state;
+  const validators = state.steps.flatMap((step) =>
+    step.kind === "validate" ? [step] : []
+  );
+  const input = mergeJsonSchemas(
+    validators.map(({ validator }) => validatorJsonSchema(validator))
+  );
+
+  const operation: JsonSchema = {
+    ...(name && name !== "anonymous" && { operationId: name }),
+    ...(meta.description && { description: meta.description }),
+    ...(meta.tags && { tags: meta.tags }),
+    ...(meta.deprecated && { deprecated: true }),
+  };
+
+  if (typeof meta.deprecated === "string") {
+    operation.description = [meta.description, `Deprecated: ${meta.deprecated}`]
+      .filter(Boolean)
+      .join("\n\n");
+  }
+
+  if (validators.length > 0 && method === "GET") {
+    operation.parameters = queryParameters(input);
+  } else if (validators.length > 0) {
+    const optional = validators.every(
+      ({ validator }) =>
+        validator instanceof z.ZodType && validator._zod.optin === "optional"
+    );
+    const content: JsonSchema = { "application/json": { schema: input } };
+    if (validators.every((step) => step.formData)) {
+      content["multipart/form-data"] = { schema: input };
+    }
+    operation.requestBody = { required: !optional, content };
+  }
+
+  // Possible error codes with their details schema (undefined when they have no details)
+  const codes = new Map<string, z.ZodType | undefined>();
+  // POST bodies that can't be parsed are rejected even without validators
+  if (validators.length > 0 || method === "POST") {
+    codes.set("VALIDATION_ERROR", undefined);
+  }
+  if (state.steps.some((step) => step.kind === "authorize")) {
+    codes.set("FORBIDDEN", undefined);
+  }
+  if (state.timeout !== undefined) {
+    codes.set("TIMEOUT", undefined);
+  }
+  if (state.config?.maskUnhandled) {
+    codes.set("INTERNAL_ERROR", undefined);
+  }
+  for (const [code, schema] of Object.entries(state.errors ?? {})) {
+    codes.set(code, schema instanceof z.ZodUndefined ? undefined : schema);
+  }
+
+  const successSchema: JsonSchema = {
+    type: "object",
+    properties: {
+      ok: { const: true },
+      data: state.outputSchema ? toJsonSchema(state.outputSchema, "output") : {},
+    },
+    required: ["ok", "data"],
+  };
+
+  const responses: JsonSchema = {
+    "200": streaming
+      ? {
+          // Chunk types only exist in TypeScript, so chunks are described as any value
+          description:
+            "Stream of newline-delimited JSON: a chunk line per chunk, then a result line " +
+            "with the final response (an error response when the stream fails midway)",
+          content: {
+            "application/x-ndjson": {
+              schema: {
+                oneOf: [
+                  {
+                    type: "object",
+                    properties: { chunk: {} },
+                    required: ["chunk"],
+                  },
+                  {
+                    type: "object",
+                    properties: {
+                      result: {
+                        oneOf: [
+                          successSchema,
+                          { $ref: "#/components/schemas/ErrorResponse" },
+                        ],
+                      },
+                    },
+                    required: ["result"],
+                  },
+                ],
+              },
+            },
+          },
+        }
+      : {
+          description: "Success",
+          content: { "application/json": { schema: successSchema } },
+        },
+  };
+
+  // Error responses grouped by HTTP status, one branch per code
+  const byStatus = new Map<number, { codes: string[]; schemas: JsonSchema[] }>();
+  for (const [code, details] of codes) {
+    const status = statuses[code] ?? DEFAULT_ERROR_STATUSES[code] ?? 400;
+    const group = byStatus.get(status) ?? { codes: [], schemas: [] };
+    group.codes.push(code);
+    group.schemas.push({
+      allOf: [
+        { $ref: "#/components/schemas/ErrorResponse" },
+        {
+          type: "object",
+          properties: {
+            code: { const: code },
+            ...(details && { details: toJsonSchema(details, "output") }),
+          },
+          // Details are left out of the response when they are undefined
+          ...(details && !details.safeParse(undefined).success && {
+            required: ["details"],
+          }),
+        },
+      ],
+    });
+    byStatus.set(status, group);
+  }
+
+  for (const [status, group] of byStatus) {
+    const { schemas } = group;
+    responses[String(status)] = {
+      description: group.codes.join(", "),
+      content: {
+        "application/json": {
+          schema: schemas.length === 1 ? schemas[0] : { oneOf: schemas },
+        },
+      },
+    };
+  }
+
+  operation.responses = responses;
+  return operation;
+}
+
+/**
+ * JSON Schema of a validator: converted from Zod schemas, any value for other validators
+ */
+function validatorJsonSchema(validator: Validator): JsonSchema {
+  return validator instanceof z.ZodType ? toJsonSchema(validator, "input") : {};
+}
+
+/**
+ * Converts a Zod schema to a JSON Schema to embed in the document
+ * Types JSON Schema can't represent (files, dates, transforms) accept any value
+ */
+function toJsonSchema(schema: z.ZodType, io: "input" | "output"): JsonSchema {
+  const jsonSchema: JsonSchema = z.toJSONSchema(schema, {
+    target: "draft-2020-12",
+    io,
+    unrepresentable: "any",
+  });
+  // The dialect is set by the document
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+/**
+ * Combines the schemas of several validators, whose results are merged at runtime
+ */
+function mergeJsonSchemas(schemas: JsonSchema[]): JsonSchema {
+  return schemas.length === 1 ? schemas[0] : { allOf: schemas };
+}
+
+/**
+ * Describes the properties of an input schema as query parameters
+ */
+function queryParameters(input: JsonSchema): JsonSchema[] {
+  const objectSchemas = (input.allOf as JsonSchema[] | undefined) ?? [input];
+
+  return objectSchemas.flatMap((schema) => {
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+    const required = (schema.required ?? []) as string[];
+
+    return Object.entries(properties).map(([name, property]) => ({
+      name,
+      in: "query",
+      required: required.includes(name),
+      schema: property,
+    }));
+  });
+}
+
+// ===============================
+// INSTRUMENTATION
+// ===============================
+
+/**
+ * Global key of the registered instrumentation
+ * Kept on globalThis so registering from instrumentation.ts reaches every server bundle
+ */
+const INSTRUMENTATION = Symbol.for("createServerFn.instrumentation");
+
+/**
+ * Registers hooks and a tracer that observe every server function call
+ * Call it once for the app, e.g. from `register()` in Next.js' instrumentation.ts.
+ *
+ * @param instrumentation - Lifecycle hooks and an optional tracer adapter
+ * @returns Function that unregisters the instrumentation
+ *
+ * @example
+ * ```ts
+ * // instrumentation.ts
+ * export function register() {
+ *   registerInstrumentation({
+ *     onStepComplete: ({ name, step }) =>
+ *       console.log(`${name} ${step.kind} ${step.name}: ${step.duration}ms`),
+ *     onError: ({ name, code, step, requestId }) =>
+ *       console.warn(`${name} returned ${code} from ${step?.kind}`, requestId),
+ *     tracer: {
+ *       trace: (name, attributes, fn) =>
+ *         trace.getTracer("server-fn").startActiveSpan(name, { attributes }, async (span) => {
+ *           try {
+ *             return await fn();
+ *           } catch (error) {
+ *             span.recordException(error as Error);
+ *             throw error;
+ *           } finally {
+ *             span.end();
+ *           }
+ *         }),
+ *     },
+ *   });
+ * }
+ * ```
+ */
+export function registerInstrumentation(
+  instrumentation: Instrumentation
+): () => void {
+  const instrumentations = getInstrumentations();
+  instrumentations.push(instrumentation);
+
+  return () => {
+    const index = instrumentations.indexOf(instrumentation);
+    if (index !== -1) {
+      instrumentations.splice(index, 1);
+    }
+  };
+}
+
+/**
+ * The instrumentation registered so far (shared through globalThis)
+ */
+function getInstrumentations(): Instrumentation[] {
+  const store = globalThis as { [INSTRUMENTATION]?: Instrumentation[] };
+  return (store[INSTRUMENTATION] ??= []);
+}
+
+/** Hooks of Instrumentation that receive call information */
+type InstrumentationHook = Exclude<keyof Instrumentation, "tracer">;
+
+/**
+ * Calls a hook of every registered instrumentation without waiting for it
+ * Failures are logged so they never affect the call
+ */
+function notify<THook extends InstrumentationHook>(
+  instrumentations: Instrumentation[],
+  hook: THook,
+  info: Parameters<NonNullable<Instrumentation[THook]>>[0]
+): void {
+  const onFailure = (hookError: unknown) =>
+    console.error(`[createServerFn] ${hook} failed:`, hookError);
+
+  for (const instrumentation of instrumentations) {
+    try {
+      const callback = instrumentation[hook] as
+        | ((info: unknown) => unknown)
+        | undefined;
+      const result = callback?.(info);
+      if (result instanceof Promise) {
+        result.catch(onFailure);
+      }
+    } catch (hookError) {
+      onFailure(hookError);
+    }
+  }
+}
+
+/**
+ * Runs `fn` inside a span of every registered tracer (the first registered is outermost)
+ */
+function traceSpan<T>(
+  instrumentations: Instrumentation[],
+  name: string,
+  attributes: Record<string, string | number>,
+  fn: () => Promise<T>
+): Promise<T> {
+  return instrumentations.reduceRight<() => Promise<T>>(
+    (next, { tracer }) =>
+      tracer ? () => tracer.trace(name, attributes, next) : next,
+    fn
+  )();
+}
+
+// ===============================
+// REGISTRY
+// ===============================
+
+/**
+ * Global key of the registry
+ * Kept on globalThis so every server bundle shares the same registry
+ */
+const REGISTRY = Symbol.for("createServerFn.registry");
+
+/**
+ * Lists every server function built so far, with its meta, schemas and middleware
+ * Functions are recorded when their module is loaded, so the list only includes
+ * modules that were imported. In development, a module evaluated again by a hot reload
+ * replaces the entries it built before.
+ * Use it from server code to document or audit the app.
+ *
+ * @returns Registered functions, in the order they were built
+ *
+ * @example
+ * ```ts
+ * // Audit: every admin function must declare its error codes
+ * for (const entry of getServerFnRegistry()) {
+ *   if (entry.meta.tags?.includes("admin") && !entry.errors) {
+ *     console.warn(`${entry.name} doesn't declare its errors`);
+ *   }
+ * }
+ * ```
+ */
+export function getServerFnRegistry(): readonly RegisteredServerFn[] {
+  return [...getRegistry()];
+}
+
+/**
+ * The registry entries (shared through globalThis)
+ */
+function getRegistry(): RegisteredServerFn[] {
+  const store = globalThis as { [REGISTRY]?: RegisteredServerFn[] };
+  return (store[REGISTRY] ??= []);
+}
+
+/**
+ * Where the server function being built is defined, read from the stack:
+ * the frame of whoever called `.handler()` or `.stream()`, which called build()
+ */
+function definitionSite(): string | undefined {
+  const frames = (new Error().stack ?? "")
+    .split("\n")
+    .flatMap((line) => /\(?([^\s()]+:\d+:\d+)\)?$/.exec(line.trim())?.slice(1) ?? []);
+  // definitionSite() <- build() <- handler() or stream() <- the caller
+  return frames[3];
+}
+
+/**
+ * The evaluation each registry entry was built in (see currentEvaluation)
+ */
+const ENTRY_EVALUATIONS = new WeakMap<RegisteredServerFn, number>();
+
+let evaluation = 0;
+let evaluationEnding = false;
+
+/**
+ * Identifies the synchronous run the current code is part of, such as one evaluation of a
+ * module: functions built in the same run share it, and it changes once the run is over
+ */
+function currentEvaluation(): number {
+  if (!evaluationEnding) {
+    evaluationEnding = true;
+    queueMicrotask(() => {
+      evaluation++;
+      evaluationEnding = false;
+    });
+  }
+  return evaluation;
+}
+
+/**
+ * Whether a new entry is an earlier entry built again because its module was evaluated again
+ * (hot reload, development only): same name and exact position, from an earlier evaluation.
+ * Functions built in the same evaluation (e.g. by a factory) never match, and neither do
+ * entries without a known source.
+ */
+function isReloadOf(entry: RegisteredServerFn, registered: RegisteredServerFn): boolean {
+  return (
+    process.env.NODE_ENV !== "production" &&
+    entry.source !== undefined &&
+    entry.source === registered.source &&
+    entry.name === registered.name &&
+    ENTRY_EVALUATIONS.get(entry) !== ENTRY_EVALUATIONS.get(registered)
+  );
+}
+
+/**
+ * Records a built server function in the registry
+ * An entry rebuilt by a hot reload (see isReloadOf) is replaced in place; every other function
+ * gets its own entry, with a warning in development when its name is already taken.
+ */
+function registerServerFn(
+  name: string,
+  state: BuilderState,
+  fn: RegisteredServerFn["fn"],
+  streaming: boolean,
+  source: string | undefined
+): void {
+  const input: RegisteredServerFn["input"] = [];
+  const middleware: MiddlewareSummary[] = [];
+
+  const policies: PolicySummary[] = [];
+
+  for (const step of state.steps) {
+    if (step.kind === "validate") {
+      input.push(step.validator);
+    } else if (step.kind === "authorize") {
+      policies.push({ name: stepName(step), afterValidation: input.length > 0 });
+    } else {
+      middleware.push({
+        kind: step.kind,
+        name: stepName(step),
+        afterValidation: input.length > 0,
+      });
+    }
+  }
+
+  const entry: RegisteredServerFn = {
+    name,
+    meta: state.meta ?? {},
+    input,
+    output: state.outputSchema,
+    errors: state.errors,
+    middleware,
+    policies,
+    timeout: state.timeout,
+    streaming,
+    source,
+    fn,
+  };
+
+  ENTRY_EVALUATIONS.set(entry, currentEvaluation());
+
+  const registry = getRegistry();
+  const existing = registry.findIndex((registered) => isReloadOf(entry, registered));
+  if (existing !== -1) {
+    registry[existing] = entry;
+    return;
+  }
+
+  const namesake =
+    name !== "anonymous" && registry.find((registered) => registered.name === name);
+  if (namesake) {
+    reportInDev(
+      `Two server functions are named "${name}" (${namesake.source ?? "unknown"} and ${source ?? "unknown"}). Give them distinct .meta() names.`
+    );
+  }
+  registry.push(entry);
+}
+
+// ===============================
+// INVOCATION
+// ===============================
+
+/**
+ * Options for invokeServerFn()
+ */
+export type InvokeServerFnOptions<
+  TFn extends (...args: any[]) => Promise<ServerFnResponse<any, any, any>>
+> = {
+  /** The `context` the calling middleware or handler received, as is */
+  context: MiddlewareContext;
+  /** Input for the invoked function, validated by its own validators */
+  input?: CallInputOf<TFn>;
+  /** Aborts the invoked call, usually the caller's `signal` */
+  signal?: AbortSignal;
+  /**
+   * The caller's `defer`, so the invoked function's deferred tasks wait for the caller to
+   * succeed too (otherwise they run as soon as the invoked call succeeds)
+   */
+  defer?: DeferFn;
+};
+
+/** The `data` of a server function's success response */
+type SuccessDataOf<
+  TFn extends (...args: any[]) => Promise<ServerFnResponse<any, any, any>>
+> = Extract<Awaited<ReturnType<TFn>>, { ok: true }>["data"];
+
+/**
+ * Runs a built server function from inside another one, to build larger operations out of
+ * existing functions
+ *
+ * The invoked function starts from the caller's context and skips the middleware added
+ * before `.validate()` that already ran for the caller (matched by reference, e.g. the
+ * `authMiddleware` of a shared base instance); its other middleware, validation, policies
+ * and handler run as usual. Middleware added after `.validate()` always run again, since
+ * they depend on the input (e.g. loading the post an ownership policy checks).
+ * Resolves to the `data` of its response and throws a ServerFnError with the same code,
+ * messages and details for an error response, so the caller can let it propagate or catch it.
+ * Unexpected errors are re-thrown for the caller's policy to handle.
+ * Pass the caller's `defer` so the invoked function's deferred tasks only run if the caller
+ * succeeds as well.
+ *
+ * @param fn - Server function returned by `.handler()`
+ * @param options - The caller's context, and the input and signal for the call
+ * @returns The data of the invoked function's success response
+ *
+ * @example
+ * ```ts
+ * export const publishPost = authServerFn
+ *   .validate(z.object({ title: z.string(), content: z.string() }))
+ *   .handler(async ({ input, context, signal, defer }) => {
+ *     // authMiddleware doesn't run again; a VALIDATION_ERROR would be thrown as a ServerFnError
+ *     const { post } = await invokeServerFn(createPost, { context, input, signal, defer });
+ *     return invokeServerFn(sendNewsletter, {
+ *       context,
+ *       input: { postId: post.id },
+ *       signal,
+ *       defer,
+ *     });
+ *   });
+ * ```
+ */
+export async function invokeServerFn<
+  TFn extends (...args: any[]) => Promise<ServerFnResponse<any, any, any>>
+>(fn: TFn, options: InvokeServerFnOptions<TFn>): Promise<SuccessDataOf<TFn>> {
+  const definition = getServerFnDefinition(fn);
+  if (!definition || definition.streaming) {
+    throw new Error("invokeServerFn() expects a function returned by .handler()");
+  }
+
+  const response = await definition.run(
+    { input: options.input, signal: options.signal },
+    {
+      context: options.context,
+      skip: APPLIED_MIDDLEWARE.get(options.context),
+      rethrowUnhandled: true,
+      defer: options.defer,
+    }
+  );
+
+  if (!response.ok) {
+    throw new ServerFnError(
+      response.errors[0] ?? response.code,
+      response.code,
+      response.errors,
+      {
+        fieldErrors: response.fieldErrors,
+        formErrors: response.formErrors,
+        details: response.details,
+      }
+    );
+  }
+
+  return response.data;
+}
+
+// ===============================
+// TESTING
+// ===============================
+
+/** A middleware added with `.use()` or `.around()`, or a policy added with `.authorize()` */
+type AnyMiddleware = (...args: any[]) => any;
+
+/** The input a server function is called with */
+type CallInputOf<TFn extends AnyBuiltServerFn> =
+  NonNullable<Parameters<TFn>[0]> extends { input?: infer TInput } ? TInput : never;
+
+/** The validated input the handler of a server function receives */
+type ValidatedInputOf<TFn extends (...args: any[]) => Promise<ServerFnResponse<any, any, any>>> =
+  Awaited<ReturnType<TFn>> extends ServerFnResponse<any, infer TInput, any>
+    ? TInput
+    : unknown;
+
+/**
+ * What a skipped middleware would have added to the context
+ * Policies and around middleware add nothing the types can see.
+ */
+type SkippedResult<TMiddleware extends AnyMiddleware> =
+  Awaited<ReturnType<TMiddleware>> extends infer TResult
+    ? TResult extends ReplacedContext<infer TReplaced>
+      ? TReplaced
+      : TResult extends
+          | boolean
+          | PolicyDecision
+          | ServerFnResponse<any, any, any>
+          | void
+          | undefined
+      ? unknown
+      : TResult extends MiddlewareContext
+      ? TResult
+      : unknown
+    : unknown;
+
+/**
+ * The context the skipped middleware would have built, so tests must provide it
+ * (nothing is required when `skip` isn't a literal list)
+ */
+type SkippedContext<TSkip extends readonly AnyMiddleware[]> = TSkip extends readonly [
+  infer TFirst extends AnyMiddleware,
+  ...infer TRest extends readonly AnyMiddleware[]
+]
+  ? SkippedResult<TFirst> & SkippedContext<TRest>
+  : unknown;
+
+/**
+ * Options for testServerFn()
+ * `context` is required, with the values of the skipped middleware, when they add any.
+ */
+export type TestServerFnOptions<
+  TFn extends AnyBuiltServerFn,
+  TSkip extends readonly AnyMiddleware[] = []
+> = TestServerFnBaseOptions<TFn, TSkip> &
+  (Partial<SkippedContext<TSkip>> extends SkippedContext<TSkip>
+    ? {
+        /** Context the chain starts with, e.g. what a skipped middleware would have added */
+        context?: MiddlewareContext;
+      }
+    : {
+        /** Context the chain starts with, including what the skipped middleware would have added */
+        context: MiddlewareContext & SkippedContext<TSkip>;
+      });
+
+/**
+ * Options for testServerFn() other than the starting context
+ */
+type TestServerFnBaseOptions<
+  TFn extends AnyBuiltServerFn,
+  TSkip extends readonly AnyMiddleware[]
+> = {
+  /** Input to call the function with */
+  input?: CallInputOf<TFn>;
+  /** Middleware and policies that don't run (matched by reference) */
+  skip?: TSkip;
+  /** Middleware and policies that run in place of others, as `[original, replacement]` pairs */
+  replace?: [original: AnyMiddleware, replacement: AnyMiddleware][];
+  /** Aborts the call */
+  signal?: AbortSignal;
+  /**
+   * A fake incoming Request, read by `requestContext()` and passed to middleware
+   * (defaults to a GET request to http://localhost/ without headers)
+   */
+  request?: Request;
+};
+
+/**
+ * Calls a built server function in a test, without the middleware you don't want to run
+ *
+ * The chain runs as usual (validation, the remaining middleware, the handler and the output
+ * schema), starting from the given context. Middleware are matched by reference, so skip or
+ * replace the functions the chain was built with; unknown middleware throw so typos don't
+ * silently run the real one. The function isn't added to the registry.
+ * When skipped middleware add to the context, `context` must provide what they would have added.
+ *
+ * @param fn - Server function returned by `.handler()` or `.stream()`
+ * @param options - Input, starting context and the middleware to skip or replace
+ * @returns The response, typed like the server function's
+ *
+ * @example
+ * ```ts
+ * const result = await testServerFn(createPost, {
+ *   input: { title: "Hello", content: "Hello, world!" },
+ *   context: { user: { id: "1", email: "test@example.com", name: "Test", role: "admin" } },
+ *   skip: [authMiddleware],
+ *   replace: [[isAdmin, () => true]],
+ * });
+ * expectOk(result);
+ * result.data.post.title; // narrowed to the success response
+ * ```
+ */
+export async function testServerFn<
+  TFn extends AnyBuiltServerFn,
+  const TSkip extends readonly AnyMiddleware[] = []
+>(
+  fn: TFn,
+  options: TestServerFnOptions<TFn, TSkip> = {} as TestServerFnOptions<TFn, TSkip>
+): Promise<Awaited<ReturnType<TFn>>> {
+  const definition = getServerFnDefinition(fn);
+  if (!definition) {
+    throw new Error("testServerFn() expects a function returned by .handler()");
+  }
+
+  const replacements = new Map<AnyMiddleware, AnyMiddleware | undefined>([
+    ...(options.skip ?? []).map((middleware) => [middleware, undefined] as const),
+    ...(options.replace ?? []),
+  ]);
+
+  const middlewareFns = new Set(
+    definition.state.steps.flatMap((step) =>
+      step.kind === "validate" ? [] : [step.fn as AnyMiddleware]
+    )
+  );
+  for (const middleware of replacements.keys()) {
+    if (!middlewareFns.has(middleware)) {
+      throw new Error(
+        `testServerFn(): middleware "${middleware.name || "anonymous"}" isn't part of ${definition.name}`
+      );
+    }
+  }
+
+  const steps = definition.state.steps.flatMap((step): ChainStep[] => {
+    if (step.kind === "validate" || !replacements.has(step.fn)) {
+      return [step];
+    }
+    const replacement = replacements.get(step.fn);
+    return replacement ? [{ ...step, fn: replacement } as ChainStep] : [];
+  });
+
+  const testDefinition = new ServerFnBuilderImpl({
+    ...definition.state,
+    steps,
+  }).createDefinition(definition.handler, definition.streaming);
+
+  const args = { input: options.input, signal: options.signal };
+  const execution: ExecutionOptions = {
+    context: options.context,
+    request: options.request ?? new Request("http://localhost/"),
+  };
+
+  return (
+    testDefinition.streaming
+      ? startStream(testDefinition, args, execution)
+      : testDefinition.run(args, execution)
+  ) as Promise<Awaited<ReturnType<TFn>>>;
+}
+
+/**
+ * Waits for every deferred task that is still running, including the tasks of calls that
+ * succeed while waiting. Outside of a request, tasks start as soon as their call succeeds,
+ * so await this before asserting on their side effects.
+ *
+ * @example
+ * ```ts
+ * const result = await testServerFn(publishPost, {
+ *   input: { postId: draft.id },
+ *   context: { user: author }, // what authMiddleware would add
+ *   skip: [authMiddleware],
+ * });
+ * expectOk(result);
+ * await flushDeferred(); // the notifications publishPost deferred have been sent
+ * ```
+ */
+export async function flushDeferred(): Promise<void> {
+  while (PENDING_DEFERRED.size > 0) {
+    await Promise.all(PENDING_DEFERRED);
+  }
+}
+
+/**
+ * Runs only the validators of a built server function against a sample input
+ * Resolves to `{ ok: true, data }` with the validated input, or to the VALIDATION_ERROR
+ * response the function would return. No middleware or handler runs.
+ *
+ * @param fn - Server function returned by `.handler()`
+ * @param input - Sample input, including FormData for `{ formData: true }` validators
+ * @returns The validated input, or the validation error response
+ *
+ * @example
+ * ```ts
+ * const result = await testValidation(createPost, { title: "", content: "x" });
+ * expectError(result, "VALIDATION_ERROR");
+ * result.fieldErrors?.title; // ["Title required"]
+ * ```
+ */
+export async function testValidation<
+  TFn extends (...args: any[]) => Promise<ServerFnResponse<any, any, any>>
+>(
+  fn: TFn,
+  input: CallInputOf<TFn>
+): Promise<ServerFnResponse<ValidatedInputOf<TFn>, ValidatedInputOf<TFn>>> {
+  const definition = getServerFnDefinition(fn);
+  if (!definition) {
+    throw new Error("testValidation() expects a function returned by .handler()");
+  }
+
+  // A chain of only the validation steps, whose handler returns the validated input
+  const validationDefinition = new ServerFnBuilderImpl({
+    steps: definition.state.steps.filter((step) => step.kind === "validate"),
+  }).createDefinition(async ({ input }) => input);
+
+  return validationDefinition.run({ input }, {});
+}
+
+/**
+ * Asserts that a response is successful, narrowing it to the success response
+ * Throws with the error response otherwise.
+ *
+ * @example
+ * ```ts
+ * const result = await testServerFn(getPosts);
+ * expectOk(result);
+ * result.data.posts; // typed
+ * ```
+ */
+export function expectOk<TResponse extends ServerFnResponse<any, any, any>>(
+  response: TResponse
+): asserts response is Extract<TResponse, { ok: true }> {
+  if (!response.ok) {
+    throw new Error(
+      `Expected a successful response, got ${response.code}: ${JSON.stringify(response)}`
+    );
+  }
+}
+
+/**
+ * Asserts that a response is an error (with the given code), narrowing it to that error response
+ * Declared error codes narrow `details` to the code's schema.
+ *
+ * @example
+ * ```ts
+ * const result = await testServerFn(publishPost, {
+ *   input: { postId: "missing" },
+ *   context: { user: { id: "1", email: "test@example.com", name: "Test", role: "admin" } },
+ *   skip: [authMiddleware],
+ * });
+ * expectError(result, "NOT_FOUND");
+ * result.errors; // ["Post not found"]
+ * ```
+ */
+export function expectError<
+  TResponse extends ServerFnResponse<any, any, any>,
+  TCode extends Extract<TResponse, { ok: false }>["code"] = Extract<
+    TResponse,
+    { ok: false }
+  >["code"]
+>(
+  response: TResponse,
+  code?: TCode
+): asserts response is Extract<TResponse, { ok: false }> & { code: TCode } {
+  if (response.ok) {
+    throw new Error(
+      `Expected an error response${code ? ` with code ${code}` : ""}, got a successful response: ${JSON.stringify(response)}`
+    );
+  }
+
+  if (code !== undefined && response.code !== code) {
+    throw new Error(
+      `Expected error code ${code}, got ${response.code}: ${JSON.stringify(response)}`
+    );
+  }
+}
+
+// ===============================
+// AUTHORIZATION
+// ===============================
+
+/**
+ * Allows the call; return it from a policy
+ */
+export function allow(): PolicyDecision {
+  return { allow: true };
+}
+
+/**
+ * Denies the call; return it from a policy
+ * @param reason - Message of the FORBIDDEN response, shown to the client
+ */
+export function deny(reason?: string): PolicyDecision {
+  return { allow: false, reason };
+}
+
+/**
+ * Runs a policy and normalizes its boolean shorthand into a decision
+ */
+async function evaluatePolicy(
+  policy: Policy,
+  args: Parameters<Policy>[0]
+): Promise<PolicyDecision> {
+  const result = await policy(args);
+  return typeof result === "boolean" ? { allow: result } : result;
+}
+
+/**
+ * Runs the policy of an `.authorize()` step, throwing a ForbiddenError when it denies the call
+ */
+async function enforcePolicy(
+  policy: Policy,
+  args: Parameters<Policy>[0]
+): Promise<void> {
+  const decision = await evaluatePolicy(policy, args);
+  if (!decision.allow) {
+    throw new ForbiddenError(decision.reason);
+  }
+}
+
+/**
+ * Names a combined policy after the policies it combines, e.g. `or(isAdmin, isAuthor)`
+ */
+function combinedPolicyName(combinator: string, policies: Policy[]): string {
+  return `${combinator}(${policies.map((policy) => policy.name || "anonymous").join(", ")})`;
+}
+
+/**
+ * Combines policies that must all allow the call
+ * They run in order and the first denial is returned, so later policies don't run.
+ *
+ * @param policies - Policies to combine
+ * @returns A policy for `.authorize()`, requiring the context and input of every policy
+ *
+ * @example
+ * ```ts
+ * authServerFn.authorize(and(isVerified, isAdmin))
+ * ```
+ */
+export function and<TPolicies extends Policy[]>(
+  ...policies: TPolicies
+): CombinedPolicy<TPolicies> {
+  const combined = async (args: Parameters<Policy>[0]) => {
+    for (const policy of policies) {
+      const decision = await evaluatePolicy(policy, args);
+      if (!decision.allow) return decision;
+    }
+    return allow();
+  };
+  Object.defineProperty(combined, "name", {
+    value: combinedPolicyName("and", policies),
+  });
+  return combined as CombinedPolicy<TPolicies>;
+}
+
+/**
+ * Combines policies of which one must allow the call
+ * They run in order until one allows it; when all deny, the first denial is returned.
+ *
+ * @param policies - Policies to combine
+ * @returns A policy for `.authorize()`, requiring the context and input of every policy
+ *
+ * @example
+ * ```ts
+ * authServerFn
+ *   .validate(z.object({ postId: z.string() }))
+ *   .authorize(or(isAdmin, isAuthor))
+ * ```
+ */
+export function or<TPolicies extends Policy[]>(
+  ...policies: TPolicies
+): CombinedPolicy<TPolicies> {
+  const combined = async (args: Parameters<Policy>[0]) => {
+    let firstDenial: PolicyDecision | undefined;
+    for (const policy of policies) {
+      const decision = await evaluatePolicy(policy, args);
+      if (decision.allow) return decision;
+      firstDenial ??= decision;
+    }
+    return firstDenial ?? deny();
+  };
+  Object.defineProperty(combined, "name", {
+    value: combinedPolicyName("or", policies),
+  });
+  return combined as CombinedPolicy<TPolicies>;
+}
+
+// ===============================
+// REQUEST CONTEXT
+// ===============================
+
+/**
+ * Reads the cookies of a Request from its `cookie` header
+ */
+function parseCookies(header: string | null): Map<string, string> {
+  const result = new Map<string, string>();
+  for (const pair of header?.split(";") ?? []) {
+    const separator = pair.indexOf("=");
+    if (separator === -1) continue;
+
+    const name = pair.slice(0, separator).trim();
+    const value = pair.slice(separator + 1).trim().replace(/^"(.*)"$/, "$1");
+    if (!name || result.has(name)) continue;
+
+    try {
+      result.set(name, decodeURIComponent(value));
+    } catch {
+      result.set(name, value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Reads the client IP set by the trusted proxies
+ * Each proxy appends the address it received the request from to `x-forwarded-for`, so the
+ * entry `trustedProxies` from the right is the last one a trusted proxy wrote; anything
+ * left of it comes from the client.
+ */
+function clientIp(requestHeaders: Headers, trustedProxies: number): string | undefined {
+  if (trustedProxies < 1) return undefined;
+
+  const forwarded = (requestHeaders.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return (
+    forwarded[Math.max(0, forwarded.length - trustedProxies)] ||
+    requestHeaders.get("x-real-ip")?.trim() ||
+    undefined
+  );
+}
+
+/**
+ * Lists the language tags of an `accept-language` header, most preferred first
+ */
+function preferredLanguages(header: string | null): string[] {
+  return (header ?? "")
+    .split(",")
+    .map((entry, index) => {
+      const [tag, ...params] = entry.trim().split(";");
+      const q = params.find((param) => param.trim().startsWith("q="));
+      const quality = q ? Number(q.trim().slice(2)) : 1;
+      return { tag: tag.trim(), quality: Number.isNaN(quality) ? 0 : quality, index };
+    })
+    .filter(({ tag, quality }) => tag && tag !== "*" && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ tag }) => tag);
+}
+
+/**
+ * Picks the supported locale that best matches the preferred languages
+ * Each language is matched exactly first, then by its primary subtag (`fr-CH` -> `fr`)
+ */
+function matchLocale<TLocale extends string>(
+  languages: string[],
+  options: RequestContextOptions<TLocale>
+): TLocale {
+  const primary = (tag: string) => tag.split("-")[0].toLowerCase();
+
+  for (const language of languages) {
+    const exact = options.locales.find(
+      (locale) => locale.toLowerCase() === language.toLowerCase()
+    );
+    if (exact) return exact;
+
+    const partial = options.locales.find(
+      (locale) => primary(locale) === primary(language)
+    );
+    if (partial) return partial;
+  }
+  return options.defaultLocale;
+}
+
+/**
+ * Middleware that adds the request's headers, cookies, client IP and locale to the context
+ * as `request`, so later middleware don't reach into `next/headers` themselves.
+ *
+ * Reads the Request given to route handlers and testServerFn(); server actions read the
+ * current request through `next/headers`. Add it before `.validate()`.
+ *
+ * `ip` trusts one proxy by default (as on Vercel or behind a single load balancer); set
+ * `trustedProxies` to the number of proxies in front of the app, or `0` without one, since
+ * clients can send their own `x-forwarded-for`.
+ *
+ * @param options - Supported locales and the default one, to type `locale` as their union,
+ *   and the number of trusted proxies
+ * @returns A middleware to pass to `.use()`
+ *
+ * @example
+ * ```ts
+ * const baseServerFn = createServerFn().use(
+ *   requestContext({ locales: ["en", "fr"], defaultLocale: "en" })
+ * );
+ *
+ * const authServerFn = baseServerFn.use(async ({ request }) => {
+ *   const user = await getUserBySession(request.cookies.get("session"));
+ *   if (!user) throw new UnauthorizedError("Login required");
+ *   return { user, locale: request.locale }; // locale: "en" | "fr"
+ * });
+ *
+ * // In tests
+ * await testServerFn(getProfile, {
+ *   request: new Request("http://localhost", { headers: { cookie: "session=abc" } }),
+ * });
+ * ```
+ */
+export function requestContext(
+  options?: RequestContextProxyOptions
+): MiddlewareFn<MiddlewareContext, { request: RequestContext }>;
+export function requestContext<const TLocale extends string>(
+  options: RequestContextOptions<TLocale>
+): MiddlewareFn<MiddlewareContext, { request: RequestContext<TLocale> }>;
+export function requestContext(
+  options: RequestContextProxyOptions & Partial<RequestContextOptions<string>> = {}
+): MiddlewareFn<MiddlewareContext, { request: RequestContext }> {
+  const { trustedProxies = 1 } = options;
+
+  return async function requestContext(_context, { request }) {
+    const [requestHeaders, requestCookies] = request
+      ? [request.headers, parseCookies(request.headers.get("cookie"))]
+      : await Promise.all([
+          headers(),
+          cookies().then(
+            (store) => new Map(store.getAll().map(({ name, value }) => [name, value]))
+          ),
+        ]);
+
+    const languages = preferredLanguages(requestHeaders.get("accept-language"));
+
+    return {
+      request: {
+        headers: requestHeaders,
+        cookies: requestCookies,
+        ip: clientIp(requestHeaders, trustedProxies),
+        locale: options.locales
+          ? matchLocale(languages, options as RequestContextOptions<string>)
+          : languages[0],
+      },
+    };
+  };
+}
+
+// ===============================
+// CONTEXT HELPERS
+// ===============================
+
+/**
+ * Replaces the whole context instead of merging into it. Return it from a middleware
+ * to drop or retype keys added by earlier middleware.
+ *
+ * @param context - The new context
+ *
+ * @example
+ * ```ts
+ * createServerFn()
+ *   .use(async () => ({ user, rawSession }))
+ *   .use(async ({ rawSession, ...rest }) => replaceContext(rest))
+ *   .handler(async ({ context }) => context) // context: { user }
+ * ```
+ */
+export function replaceContext<T extends MiddlewareContext>(
+  context: T
+): ReplacedContext<T> {
+  return { [REPLACE_CONTEXT]: context } as unknown as ReplacedContext<T>;
+}
+
+// ===============================
+// MAIN EXPORT FUNCTION
+// ===============================
+
+/**
+ * Creates a new server function builder with fluent API for Next.js
+ *
+ * @returns A new ServerFnBuilder instance to start building your server function
+ *
+ * @example
+ * Basic usage:
+ * ```ts
+ * export const myServerFn = createServerFn()
+ *   .handler(async () => ({ message: "Hello World!" }));
+ * ```
+ *
+ * @example
+ * With middleware and validation:
+ * ```ts
+ * export const authServerFn = createServerFn()
+ *   .use(async () => ({ user: await getUser() }))
+ *   .validate(z.object({ message: z.string() }))
+ *   .handler(async ({ input, context }) => {
+ *     return { user: context.user, echo: input.message };
+ *   });
+ *
+ * // Usage:
+ * const result = await authServerFn({ input: { message: "test" } });
+ * if (result.ok) {
+ *   console.log(result.data); // { user: {...}, echo: "test" }
+ * } else {
+ *   console.log(result.errors); // ["Validation failed"]
+ * }
+ * ```
+ *
+ * @example
+ * With custom validation for FormData:
+ * ```ts
+ * export const formServerFn = createServerFn()
+ *   .validate(async (data) => {
+ *     if (!(data instanceof FormData)) {
+ *       throw new ValidationError("Expected FormData");
+ *     }
+ *     const name = data.get('name') as string;
+ *     if (!name) {
+ *       throw new ValidationError("Name is required");
+ *     }
+ *     return { name };
+ *   })
+ *   .handler(async ({ input }) => ({ greeting: `Hello ${input.name}!` }));
+ * ```
+ */
+export function createServerFn(): ServerFnBuilder<
+  EmptyContext,
+  unknown,
+  false,
+  unknown,
+  undefined,
+  undefined
+> {
+  return new ServerFnBuilderImpl();
+}
+
+/**
+ * Creates a server function factory with shared settings, such as the policy for
+ * unexpected (hard) errors. Call it once and build your server functions from the result.
+ *
+ * Next.js control-flow errors thrown by `redirect()`, `notFound()`, etc. always pass through.
+ *
+ * @param config - Settings applied to every server function built from the factory
+ * @returns A factory that works like createServerFn()
+ *
+ * @example
+ * ```ts
+ * export const createAppServerFn = createServerFn.configure({
+ *   maskUnhandled: process.env.NODE_ENV === "production",
+ *   onUnhandledError: (error, { errorId }) => reporter.capture(error, { errorId }),
+ * });
+ *
+ * // Unexpected errors now return:
+ * // { ok: false, code: "INTERNAL_ERROR", errors: ["An unexpected error occurred"], errorId: "..." }
+ * ```
+ */
+createServerFn.configure = function configure(
+  config: ServerFnConfig
+): () => ServerFnBuilder<EmptyContext, unknown, false, unknown, undefined, undefined> {
+  return () => new ServerFnBuilderImpl({ steps: [], config });
+};
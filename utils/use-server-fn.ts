@@ -0,0 +1,152 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import type { ServerFnResponse } from "./create-server-fn";
+
+/**
+ * React client hook for calling server functions built with createServerFn()
+ *
+ * Tracks the status of the latest call and exposes its response fields, with all types
+ * inferred from the server function (including ExpectedInput for custom validators).
+ */
+
+// ===============================
+// TYPES
+// ===============================
+
+/**
+ * Any function returned by `.handler()`
+ */
+export type AnyServerFn = (
+  ...args: any[]
+) => Promise<ServerFnResponse<any, any, any>>;
+
+/**
+ * Lifecycle of the latest call
+ * - idle: not called yet (or reset)
+ * - pending: waiting for the response
+ * - success: responded with `{ ok: true }`
+ * - error: responded with `{ ok: false }` or threw
+ */
+export type ServerFnStatus = "idle" | "pending" | "success" | "error";
+
+/** The response type of a server function */
+type ResponseOf<TFn extends AnyServerFn> = Awaited<ReturnType<TFn>>;
+
+/** The error response type of a server function */
+type ErrorResponseOf<TFn extends AnyServerFn> = Extract<
+  ResponseOf<TFn>,
+  { ok: false }
+>;
+
+/**
+ * Value returned by useServerFn()
+ */
+export type UseServerFnResult<TFn extends AnyServerFn> = {
+  /**
+   * Calls the server function with the same arguments it accepts.
+   * Resolves to the response; state is only updated for the latest call.
+   * Hard errors set the status to "error" and are re-thrown.
+   */
+  execute: (...args: Parameters<TFn>) => Promise<ResponseOf<TFn>>;
+  /** Lifecycle of the latest call */
+  status: ServerFnStatus;
+  /** Shortcut for `status === "pending"` */
+  isPending: boolean;
+  /** Data of the latest successful response */
+  data: Extract<ResponseOf<TFn>, { ok: true }>["data"] | undefined;
+  /** Error code of the latest error response */
+  code: ErrorResponseOf<TFn>["code"] | undefined;
+  /** Error messages of the latest error response (empty otherwise) */
+  errors: string[];
+  /** Field-level errors of the latest error response */
+  fieldErrors: ErrorResponseOf<TFn>["fieldErrors"] | undefined;
+  /** Goes back to "idle" and ignores any call still in flight */
+  reset: () => void;
+};
+
+/**
+ * Internal state of the hook, replaced as a whole on every transition
+ */
+type State<TFn extends AnyServerFn> = {
+  status: ServerFnStatus;
+  response?: ResponseOf<TFn>;
+};
+
+// ===============================
+// HOOK
+// ===============================
+
+/**
+ * Calls a server function from a client component and tracks its latest response
+ *
+ * When the same action is triggered several times in a row, only the response of the
+ * most recent call updates the state; earlier responses that arrive late are ignored.
+ *
+ * @param fn - Server function returned by `.handler()`
+ * @returns execute function plus the status and fields of the latest response
+ *
+ * @example
+ * ```tsx
+ * const { execute, status, data, errors, fieldErrors } = useServerFn(createUser);
+ *
+ * <form onSubmit={(e) => {
+ *   e.preventDefault();
+ *   execute({ input: { name, email } }); // typed from the Zod schema
+ * }}>
+ *   {fieldErrors?.email && <p>{fieldErrors.email[0]}</p>}
+ *   {status === "success" && <p>Created {data?.user.name}</p>}
+ * </form>
+ * ```
+ */
+export function useServerFn<TFn extends AnyServerFn>(
+  fn: TFn
+): UseServerFnResult<TFn> {
+  const [state, setState] = useState<State<TFn>>({ status: "idle" });
+
+  // Incremented on every call and reset, so stale responses can be detected
+  const latestCall = useRef(0);
+
+  const execute = useCallback(
+    async (...args: Parameters<TFn>): Promise<ResponseOf<TFn>> => {
+      const call = ++latestCall.current;
+      setState((previous) => ({ ...previous, status: "pending" }));
+
+      try {
+        const response = (await fn(...args)) as ResponseOf<TFn>;
+
+        if (call === latestCall.current) {
+          setState({ status: response.ok ? "success" : "error", response });
+        }
+
+        return response;
+      } catch (error) {
+        if (call === latestCall.current) {
+          setState({ status: "error" });
+        }
+
+        throw error;
+      }
+    },
+    [fn]
+  );
+
+  const reset = useCallback(() => {
+    latestCall.current++;
+    setState({ status: "idle" });
+  }, []);
+
+  const response = state.response;
+
+  return {
+    execute,
+    status: state.status,
+    isPending: state.status === "pending",
+    data: response?.ok ? response.data : undefined,
+    code: response && !response.ok ? response.code : undefined,
+    errors: response && !response.ok ? response.errors : [],
+    fieldErrors: response && !response.ok ? response.fieldErrors : undefined,
+    reset,
+  };
+}